@@ -0,0 +1,114 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import type { Genkit } from 'genkit';
+import { LangfuseDatasetRunner } from './datasets.js';
+
+const USAGE = `Usage:
+  genkit-langfuse dataset import <dataset> [--output <file>]
+      Write a Langfuse dataset in Genkit's eval dataset format, e.g. for
+      \`genkit eval:flow <flow> --input <file>\`.
+
+  genkit-langfuse dataset run <dataset> --app <module> --flow <flow>
+                             [--export <name>] [--run-name <name>] [--description <text>]
+      Run a flow over a Langfuse dataset and record a dataset run. <module>
+      must export the Genkit instance (as \`ai\` unless --export is given)
+      with the langfuse() plugin enabled.
+
+Credentials are read from LANGFUSE_SECRET_KEY, LANGFUSE_PUBLIC_KEY and
+LANGFUSE_BASE_URL.`;
+
+/**
+ * Output streams of the command line interface.
+ */
+export interface CliOutput {
+  log(message: string): void;
+  error(message: string): void;
+}
+
+/**
+ * Run the `genkit-langfuse` command line interface.
+ *
+ * @returns Process exit code
+ */
+export async function main(argv: string[], output: CliOutput = console): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        output: { type: 'string', short: 'o' },
+        app: { type: 'string' },
+        flow: { type: 'string' },
+        export: { type: 'string', default: 'ai' },
+        'run-name': { type: 'string' },
+        description: { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    output.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return 1;
+  }
+
+  const { values, positionals } = parsed;
+  const [group, command, datasetName] = positionals;
+  if (values.help) {
+    output.log(USAGE);
+    return 0;
+  }
+  if (group !== 'dataset' || !['import', 'run'].includes(command) || !datasetName) {
+    output.error(USAGE);
+    return 1;
+  }
+
+  try {
+    const runner = new LangfuseDatasetRunner();
+
+    if (command === 'import') {
+      const dataset = await runner.importDataset(datasetName);
+      const json = JSON.stringify(dataset, null, 2);
+      if (values.output) {
+        fs.writeFileSync(values.output, json + '\n');
+        output.log(`Wrote ${dataset.length} test cases to ${values.output}`);
+      } else {
+        output.log(json);
+      }
+      return 0;
+    }
+
+    if (!values.app || !values.flow) {
+      output.error(`dataset run requires --app and --flow\n\n${USAGE}`);
+      return 1;
+    }
+    const ai = loadGenkit(values.app, values.export!);
+    const result = await runner.runDataset(ai, datasetName, values.flow, {
+      runName: values['run-name'],
+      runDescription: values.description,
+    });
+
+    const failed = result.runs.filter(run => run.error);
+    output.log(`Dataset run ${result.runName}: ${result.linkedItems} of ${result.runs.length} items linked`);
+    for (const run of failed) {
+      output.error(`  ${run.testCaseId}: ${run.error}`);
+    }
+    return failed.length > 0 ? 1 : 0;
+  } catch (error) {
+    output.error(error instanceof Error ? error.message : String(error));
+    return 1;
+  }
+}
+
+/**
+ * Load the Genkit instance exported by the application module.
+ */
+function loadGenkit(modulePath: string, exportName: string): Genkit {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const exports = require(path.resolve(modulePath));
+  const ai = exports[exportName] ?? exports.default?.[exportName];
+  if (!ai?.registry) {
+    throw new Error(`${modulePath} does not export a Genkit instance named ${exportName}`);
+  }
+  return ai;
+}
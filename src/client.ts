@@ -0,0 +1,23 @@
+import { Langfuse } from 'langfuse';
+import { resolveConfig } from './config.js';
+import type { LangfuseConfig } from './types.js';
+
+/**
+ * Use the given Langfuse client, or create one from plugin configuration
+ * (falling back to `LANGFUSE_*` environment variables).
+ *
+ * @throws LangfuseConfigError if the configuration is invalid
+ */
+export function createLangfuseClient(client: Langfuse | Partial<LangfuseConfig> = {}): Langfuse {
+  if (client instanceof Langfuse) {
+    return client;
+  }
+  const config = resolveConfig(client);
+  return new Langfuse({
+    secretKey: config.secretKey,
+    publicKey: config.publicKey,
+    baseUrl: config.baseUrl,
+    environment: config.environment,
+    release: config.release,
+  });
+}
@@ -0,0 +1,207 @@
+import { z } from 'genkit';
+import type { LangfuseConfig } from './types.js';
+
+/**
+ * Environment variables read for each configuration field.
+ */
+const ENVIRONMENT_VARIABLES = {
+  secretKey: ['LANGFUSE_SECRET_KEY'],
+  publicKey: ['LANGFUSE_PUBLIC_KEY'],
+  baseUrl: ['LANGFUSE_BASEURL', 'LANGFUSE_BASE_URL', 'LANGFUSE_HOST'],
+  debug: ['LANGFUSE_DEBUG'],
+  flushAt: ['LANGFUSE_FLUSH_AT'],
+  flushInterval: ['LANGFUSE_FLUSH_INTERVAL'],
+  sampleRate: ['LANGFUSE_SAMPLE_RATE'],
+  environment: ['LANGFUSE_TRACING_ENVIRONMENT', 'LANGFUSE_ENVIRONMENT'],
+  release: ['LANGFUSE_RELEASE'],
+} as const;
+
+type EnvironmentField = keyof typeof ENVIRONMENT_VARIABLES;
+
+const NUMERIC_FIELDS: EnvironmentField[] = ['flushAt', 'flushInterval', 'sampleRate'];
+const BOOLEAN_FIELDS: EnvironmentField[] = ['debug'];
+
+/** Destination name of the main Langfuse project in routing rules */
+export const DEFAULT_DESTINATION = 'default';
+
+/** Environments accepted by Langfuse */
+const ENVIRONMENT_PATTERN = /^(?!langfuse)[a-z0-9_-]+$/;
+
+/**
+ * Schema for the serializable part of the configuration. Callbacks and
+ * nested option objects are validated where they are used.
+ */
+export const LangfuseConfigSchema = z.object({
+  secretKey: z.string({ required_error: 'Langfuse secret key is required' })
+    .min(1, 'Langfuse secret key is required'),
+  publicKey: z.string({ required_error: 'Langfuse public key is required' })
+    .min(1, 'Langfuse public key is required'),
+  baseUrl: z.string()
+    .refine(isHttpUrl, 'Must be a valid http or https URL, e.g. https://cloud.langfuse.com')
+    .optional(),
+  debug: z.boolean().optional(),
+  logLevel: z.enum(['error', 'warn', 'info', 'debug', 'trace']).optional(),
+  flushAt: z.number().int().positive().optional(),
+  flushInterval: z.number().int().nonnegative().optional(),
+  sampleRate: z.number().min(0).max(1).optional(),
+  environment: z.string()
+    .regex(ENVIRONMENT_PATTERN, 'Must be lowercase letters, digits, `-` or `_` and not start with "langfuse"')
+    .optional(),
+  release: z.string().min(1).optional(),
+  version: z.string().min(1).optional(),
+  serviceName: z.string().min(1).optional(),
+  tags: z.array(z.string().min(1)).optional(),
+  tagRules: z.array(z.object({
+    flow: z.string().min(1),
+    tags: z.array(z.string().min(1)),
+  })).optional(),
+  forceDevExport: z.boolean().optional(),
+  exportTimeoutMillis: z.number().int().positive().optional(),
+  maxQueueSize: z.number().int().positive().optional(),
+  transport: z.enum(['ingestion', 'otlp']).optional(),
+  tailSampling: z.object({
+    sampleRate: z.number().min(0).max(1).optional(),
+    keepErrors: z.boolean().optional(),
+    latencyThresholdMillis: z.number().nonnegative().optional(),
+    costThreshold: z.number().nonnegative().optional(),
+    maxBufferedSpans: z.number().int().positive().optional(),
+    maxTraceAgeMillis: z.number().int().positive().optional(),
+  }).optional(),
+  destinations: z.record(z.object({
+    publicKey: z.string().min(1, 'Langfuse public key is required'),
+    secretKey: z.string().min(1, 'Langfuse secret key is required'),
+    baseUrl: z.string()
+      .refine(isHttpUrl, 'Must be a valid http or https URL, e.g. https://cloud.langfuse.com')
+      .optional(),
+  }).passthrough()).optional(),
+  routing: z.array(z.object({
+    destination: z.string().min(1),
+    flowName: z.union([z.string(), z.array(z.string())]).optional(),
+    path: z.string().optional(),
+    tenant: z.union([z.string(), z.array(z.string())]).optional(),
+  })).optional(),
+}).passthrough().superRefine((config, ctx) => {
+  if (config.transport === 'otlp' && config.spool) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['spool'],
+      message: "The spool is not supported with transport 'otlp'",
+    });
+  }
+  config.routing?.forEach((rule, index) => {
+    if (rule.destination !== DEFAULT_DESTINATION && !config.destinations?.[rule.destination]) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['routing', index, 'destination'],
+        message: `Unknown destination "${rule.destination}"`,
+      });
+    }
+  });
+});
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A single invalid configuration field.
+ */
+export interface ConfigIssue {
+  /** Configuration field, e.g. `flushAt` */
+  field: string;
+
+  /** Environment variable the value was read from, if any */
+  environmentVariable?: string;
+
+  /** What is wrong with the value */
+  message: string;
+}
+
+/**
+ * Thrown when the merged configuration is invalid. Lists every invalid field.
+ */
+export class LangfuseConfigError extends Error {
+  readonly issues: ConfigIssue[];
+
+  constructor(issues: ConfigIssue[]) {
+    super(
+      'Invalid Langfuse configuration:\n' +
+      issues.map(issue => {
+        const source = issue.environmentVariable ? ` (from ${issue.environmentVariable})` : '';
+        return `  - ${issue.field}${source}: ${issue.message}`;
+      }).join('\n')
+    );
+    this.name = 'LangfuseConfigError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Read configuration values from `LANGFUSE_*` environment variables.
+ *
+ * @returns Values found, and the variable each one was read from
+ */
+export function readEnvironmentConfig(
+  env: NodeJS.ProcessEnv = process.env
+): { config: Partial<LangfuseConfig>; sources: Partial<Record<EnvironmentField, string>> } {
+  const config: Record<string, unknown> = {};
+  const sources: Partial<Record<EnvironmentField, string>> = {};
+
+  for (const [field, names] of Object.entries(ENVIRONMENT_VARIABLES) as [EnvironmentField, readonly string[]][]) {
+    const name = names.find(candidate => env[candidate]?.trim());
+    if (!name) continue;
+
+    const raw = env[name]!.trim();
+    sources[field] = name;
+    if (NUMERIC_FIELDS.includes(field)) {
+      // Leave unparsable values as strings so validation reports them
+      config[field] = Number.isNaN(Number(raw)) ? raw : Number(raw);
+    } else if (BOOLEAN_FIELDS.includes(field)) {
+      config[field] = ['true', '1', 'yes'].includes(raw.toLowerCase());
+    } else {
+      config[field] = raw;
+    }
+  }
+
+  return { config: config as Partial<LangfuseConfig>, sources };
+}
+
+/**
+ * Merge explicit options over environment variables and validate the result.
+ *
+ * @throws LangfuseConfigError listing every invalid field
+ */
+export function resolveConfig(
+  config: Partial<LangfuseConfig> = {},
+  env: NodeJS.ProcessEnv = process.env
+): LangfuseConfig {
+  const fromEnvironment = readEnvironmentConfig(env);
+  const merged: Record<string, unknown> = { ...fromEnvironment.config };
+  const explicitFields = new Set<string>();
+
+  for (const [field, value] of Object.entries(config)) {
+    // Empty strings and undefined fall back to the environment
+    if (value === undefined || value === '') continue;
+    merged[field] = value;
+    explicitFields.add(field);
+  }
+
+  const result = LangfuseConfigSchema.safeParse(merged);
+  if (!result.success) {
+    throw new LangfuseConfigError(result.error.issues.map(issue => {
+      const field = issue.path.join('.') || '(root)';
+      const source = explicitFields.has(field)
+        ? undefined
+        : fromEnvironment.sources[field as EnvironmentField];
+      return { field, environmentVariable: source, message: issue.message };
+    }));
+  }
+
+  // Keep the caller's object identity for callbacks and nested options
+  return Object.assign(config, merged) as LangfuseConfig;
+}
@@ -0,0 +1,114 @@
+import type { Genkit } from 'genkit';
+import { flushTracing } from 'genkit/tracing';
+import { Langfuse } from 'langfuse';
+import { createLangfuseClient } from './client.js';
+import { PluginLogger } from './logger.js';
+import type {
+  DatasetRunOptions,
+  DatasetRunResult,
+  GenkitDatasetItem,
+  LangfuseConfig,
+} from './types.js';
+
+/**
+ * Flow that can be run with telemetry, such as the result of `ai.defineFlow`.
+ */
+export interface RunnableFlow {
+  run(input?: unknown): Promise<{ result: unknown; telemetry: { traceId: string } }>;
+}
+
+/**
+ * Runs Genkit flows over datasets curated in Langfuse.
+ *
+ * The flow traces are exported by the plugin's `LangfuseExporter`, so the
+ * `langfuse()` plugin must be enabled on the Genkit instance.
+ */
+export class LangfuseDatasetRunner {
+  private readonly langfuse: Langfuse;
+  private readonly logger: PluginLogger;
+
+  constructor(client: Langfuse | Partial<LangfuseConfig> = {}, logger?: PluginLogger) {
+    this.langfuse = createLangfuseClient(client);
+    this.logger = logger || (client instanceof Langfuse ? new PluginLogger() : PluginLogger.fromConfig(client));
+  }
+
+  /**
+   * Fetch the active items of a Langfuse dataset in Genkit's eval dataset
+   * format. Test case IDs are the Langfuse item IDs.
+   */
+  async importDataset(datasetName: string): Promise<GenkitDatasetItem[]> {
+    const dataset = await this.langfuse.getDataset(datasetName);
+    return dataset.items
+      .filter(item => item.status !== 'ARCHIVED')
+      .map(item => ({
+        testCaseId: item.id,
+        input: item.input,
+        ...(item.expectedOutput !== undefined && item.expectedOutput !== null
+          ? { reference: item.expectedOutput }
+          : {}),
+      }));
+  }
+
+  /**
+   * Run a flow over every item of a Langfuse dataset and link each flow
+   * trace to its item as a dataset run.
+   *
+   * @param flow Flow, or name of a flow registered with `ai`
+   */
+  async runDataset(
+    ai: Genkit,
+    datasetName: string,
+    flow: string | RunnableFlow,
+    options: DatasetRunOptions = {}
+  ): Promise<DatasetRunResult> {
+    const runnable = typeof flow === 'string' ? await lookupFlow(ai, flow) : flow;
+    const flowName = typeof flow === 'string' ? flow : 'flow';
+    const runName = options.runName || `${flowName}-${new Date().toISOString()}`;
+    const logger = this.logger.child({ datasetName, runName });
+
+    const items = await this.importDataset(datasetName);
+    const result: DatasetRunResult = { datasetName, runName, runs: [], linkedItems: 0 };
+
+    for (const item of items) {
+      try {
+        const { result: output, telemetry } = await runnable.run(item.input);
+        result.runs.push({ testCaseId: item.testCaseId, traceId: telemetry.traceId, output });
+      } catch (error) {
+        logger.warn(`Flow failed for dataset item ${item.testCaseId}`, { error });
+        result.runs.push({
+          testCaseId: item.testCaseId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    // Hand the flow traces to the exporter before pointing run items at them
+    await flushTracing();
+
+    for (const run of result.runs) {
+      if (!run.traceId) continue;
+      await this.langfuse.createDatasetRunItem({
+        runName,
+        runDescription: options.runDescription,
+        metadata: { ...options.metadata, flow: flowName },
+        datasetItemId: run.testCaseId,
+        traceId: run.traceId,
+      });
+      result.linkedItems++;
+    }
+
+    logger.info(`Ran ${flowName} over ${items.length} dataset items`, {
+      linkedItems: result.linkedItems,
+      failed: result.runs.length - result.linkedItems,
+    });
+    return result;
+  }
+}
+
+async function lookupFlow(ai: Genkit, name: string): Promise<RunnableFlow> {
+  const flow = await ai.registry.lookupAction(`/flow/${name}`);
+  if (!flow) {
+    throw new Error(`Flow ${name} is not defined`);
+  }
+  return flow as unknown as RunnableFlow;
+}
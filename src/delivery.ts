@@ -0,0 +1,288 @@
+import type { IngestionEvent, IngestionEventError } from './types.js';
+
+/**
+ * Error reported to OpenTelemetry when Langfuse did not accept an export.
+ */
+export class LangfuseExportError extends Error {
+  /** Whether exporting the same spans again may succeed */
+  readonly retryable: boolean;
+
+  /** Events Langfuse rejected */
+  readonly eventErrors: IngestionEventError[];
+
+  constructor(message: string, retryable: boolean, eventErrors: IngestionEventError[] = []) {
+    super(message);
+    this.name = 'LangfuseExportError';
+    this.retryable = retryable;
+    this.eventErrors = eventErrors;
+  }
+}
+
+/**
+ * Result of a single Langfuse ingestion request.
+ */
+export interface FlushOutcome {
+  /** Events Langfuse accepted */
+  delivered: IngestionEvent[];
+
+  /** Events Langfuse rejected, with the reason */
+  failed: Array<{ event: IngestionEvent; error: IngestionEventError }>;
+}
+
+/**
+ * Langfuse ingestion envelope as sent by the SDK.
+ */
+export interface FlushedItem extends IngestionEvent {
+  /** Envelope ID, referenced by per-event ingestion errors */
+  id: string;
+}
+
+/**
+ * Largest event the SDK sends, configurable as in the SDK. The SDK drops
+ * larger events without reporting an error.
+ */
+const MAX_EVENT_SIZE_BYTES = Number(process.env.LANGFUSE_MAX_EVENT_SIZE_BYTES) || 1_000_000;
+
+/** Room for the envelope ID and timestamp, and the fields the SDK adds to the body */
+const ENVELOPE_OVERHEAD_BYTES = 256;
+
+/**
+ * Whether a failed ingestion request may succeed when sent again.
+ * Network errors (no status), timeouts, rate limits and server errors are
+ * retryable; authentication and validation errors are not.
+ */
+export function isRetryableStatus(status?: number): boolean {
+  return status === undefined || status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Error for an event too large for the SDK to send.
+ *
+ * @returns `undefined` when the event fits
+ */
+export function checkEventSize(event: IngestionEvent): IngestionEventError | undefined {
+  const bytes = Buffer.byteLength(JSON.stringify({ type: event.type, body: event.body })) + ENVELOPE_OVERHEAD_BYTES;
+  if (bytes <= MAX_EVENT_SIZE_BYTES) return undefined;
+  return {
+    id: String(event.body?.id),
+    type: event.type,
+    status: 413,
+    message: `Event of ${bytes} bytes exceeds the ingestion limit of ${MAX_EVENT_SIZE_BYTES} bytes`,
+    retryable: false,
+  };
+}
+
+/**
+ * Results of ingestion requests, kept until the SDK reports that a flush,
+ * including its retries, has finished. A retry replaces the result of the
+ * previous attempt.
+ */
+export class IngestionResults {
+  private readonly results = new Map<string, IngestionEventError | null>();
+
+  /**
+   * Record the response to an ingestion request.
+   *
+   * @param items Envelopes sent in the request
+   */
+  record(items: FlushedItem[], status: number | undefined, body?: unknown, error?: unknown): void {
+    for (const result of itemResults(items, status, body, error)) {
+      this.results.set(result.item.id, result.error || null);
+    }
+  }
+
+  /**
+   * Outcome of a finished flush. Envelopes the SDK kept queued for a later
+   * request were not sent and have no result yet.
+   *
+   * @param items Envelopes the SDK took from its queue for the flush
+   */
+  complete(items: FlushedItem[]): FlushOutcome {
+    const outcome: FlushOutcome = { delivered: [], failed: [] };
+    for (const item of items) {
+      const error = this.results.get(item.id);
+      if (error === undefined) continue;
+      this.results.delete(item.id);
+      if (error) {
+        outcome.failed.push({ event: toEvent(item), error });
+      } else {
+        outcome.delivered.push(toEvent(item));
+      }
+    }
+    return outcome;
+  }
+}
+
+/**
+ * Tracks which exported events are still waiting for an ingestion result.
+ */
+export class DeliveryTracker {
+  private readonly batches = new Set<PendingBatch>();
+
+  /**
+   * Wait until Langfuse has accepted or rejected all given events.
+   *
+   * @param timeoutMillis Time after which the export fails as retryable
+   */
+  track(events: IngestionEvent[], timeoutMillis: number): DeliveryBatch {
+    const batch = new PendingBatch(events);
+    this.batches.add(batch);
+
+    const timer = setTimeout(() => {
+      this.batches.delete(batch);
+      batch.fail(new LangfuseExportError(
+        `Timed out after ${timeoutMillis}ms waiting for Langfuse to ingest ${batch.remaining} events`,
+        true,
+        batch.errors
+      ));
+    }, timeoutMillis);
+    timer.unref?.();
+
+    const result = batch.promise.finally(() => clearTimeout(timer));
+    return {
+      result,
+      get settled() {
+        return batch.settled;
+      },
+    };
+  }
+
+  /**
+   * Record the outcome of an ingestion request.
+   */
+  settle(outcome: FlushOutcome): void {
+    for (const batch of this.batches) {
+      for (const event of outcome.delivered) {
+        batch.resolveEvent(event);
+      }
+      for (const { event, error } of outcome.failed) {
+        batch.resolveEvent(event, error);
+      }
+      if (batch.settled) {
+        this.batches.delete(batch);
+      }
+    }
+  }
+}
+
+/**
+ * Handle for an export waiting on Langfuse.
+ */
+export interface DeliveryBatch {
+  /** Resolves with the rejected events; rejects on timeout */
+  result: Promise<IngestionEventError[]>;
+
+  /** Whether all events have an ingestion result */
+  readonly settled: boolean;
+}
+
+class PendingBatch {
+  readonly errors: IngestionEventError[] = [];
+  readonly promise: Promise<IngestionEventError[]>;
+  private readonly pending = new Map<string, number>();
+  private resolve!: (errors: IngestionEventError[]) => void;
+  private reject!: (error: Error) => void;
+  private done = false;
+
+  constructor(events: IngestionEvent[]) {
+    for (const event of events) {
+      const key = eventKey(event);
+      this.pending.set(key, (this.pending.get(key) || 0) + 1);
+    }
+    this.promise = new Promise((resolve, reject) => {
+      this.resolve = resolve;
+      this.reject = reject;
+    });
+  }
+
+  get settled(): boolean {
+    return this.done;
+  }
+
+  get remaining(): number {
+    return Array.from(this.pending.values()).reduce((total, count) => total + count, 0);
+  }
+
+  resolveEvent(event: IngestionEvent, error?: IngestionEventError): void {
+    const key = eventKey(event);
+    const count = this.pending.get(key);
+    if (!count || this.done) return;
+
+    if (count > 1) {
+      this.pending.set(key, count - 1);
+    } else {
+      this.pending.delete(key);
+    }
+    if (error) {
+      this.errors.push(error);
+    }
+    if (this.pending.size === 0) {
+      this.done = true;
+      this.resolve(this.errors);
+    }
+  }
+
+  fail(error: Error): void {
+    if (this.done) return;
+    this.done = true;
+    this.reject(error);
+  }
+}
+
+function eventKey(event: IngestionEvent): string {
+  return `${event.type}:${event.body?.id}`;
+}
+
+function toEvent(item: FlushedItem): IngestionEvent {
+  return { type: item.type, body: item.body };
+}
+
+function createEventError(item: FlushedItem, status: number | undefined, message: string): IngestionEventError {
+  return {
+    id: String(item.body?.id),
+    type: item.type,
+    status,
+    message,
+    retryable: isRetryableStatus(status),
+  };
+}
+
+/**
+ * Result of each envelope of an ingestion request.
+ */
+function itemResults(
+  items: FlushedItem[],
+  status: number | undefined,
+  body: unknown,
+  error: unknown
+): Array<{ item: FlushedItem; error?: IngestionEventError }> {
+  if (status !== undefined && status >= 200 && status < 300 && status !== 207) {
+    return items.map(item => ({ item }));
+  }
+
+  // Partial success: Langfuse lists the rejected envelopes
+  const rejections = status === 207 ? (body as any)?.errors : undefined;
+  if (Array.isArray(rejections)) {
+    const rejected = new Map<string, any>(rejections.map((entry: any) => [String(entry?.id), entry]));
+    return items.map(item => {
+      const entry = rejected.get(item.id);
+      if (!entry) return { item };
+      const eventStatus = typeof entry.status === 'number' ? entry.status : 400;
+      return {
+        item,
+        error: createEventError(item, eventStatus, errorMessage(entry) || `Rejected with status ${eventStatus}`),
+      };
+    });
+  }
+
+  const message = errorMessage(body) || (error instanceof Error
+    ? error.message
+    : error !== undefined ? String(error) : `Ingestion request failed with status ${status}`);
+  return items.map(item => ({ item, error: createEventError(item, status, message) }));
+}
+
+function errorMessage(body: any): string | undefined {
+  if (!body || typeof body !== 'object') return undefined;
+  const parts = [body.message, typeof body.error === 'string' ? body.error : undefined].filter(Boolean);
+  return parts.length > 0 ? parts.join(': ') : undefined;
+}
@@ -0,0 +1,64 @@
+import { globToRegExp } from './span-filter.js';
+import type { LangfuseConfig } from './types.js';
+
+/** Resource attributes holding the deployment environment, newest convention first */
+const ENVIRONMENT_ATTRIBUTES = ['deployment.environment.name', 'deployment.environment'];
+
+/** Resource attributes holding the git commit of the deployed code */
+const GIT_SHA_ATTRIBUTES = ['vcs.ref.head.revision', 'vcs.repository.ref.revision', 'git.commit.sha'];
+
+/**
+ * Deployment fields of Langfuse traces and observations.
+ */
+export interface DeploymentInfo {
+  environment?: string;
+  release?: string;
+  version?: string;
+  serviceName?: string;
+}
+
+/**
+ * Resolve the Langfuse environment, release and version from the config,
+ * falling back to OpenTelemetry resource attributes.
+ */
+export function resolveDeployment(
+  config: Pick<LangfuseConfig, 'environment' | 'release' | 'version'>,
+  resourceAttributes: Record<string, unknown> = {}
+): DeploymentInfo {
+  const attribute = (keys: string[]) => keys
+    .map(key => resourceAttributes[key])
+    .find((value): value is string => typeof value === 'string' && value !== '');
+
+  const info: DeploymentInfo = {};
+  const environment = config.environment ?? toLangfuseEnvironment(attribute(ENVIRONMENT_ATTRIBUTES));
+  if (environment) info.environment = environment;
+  const release = config.release ?? attribute(GIT_SHA_ATTRIBUTES);
+  if (release) info.release = release;
+  const version = config.version ?? attribute(['service.version']);
+  if (version) info.version = version;
+  const serviceName = attribute(['service.name']);
+  if (serviceName) info.serviceName = serviceName;
+  return info;
+}
+
+/**
+ * Turn a deployment environment such as `Production` into a name Langfuse
+ * accepts: lowercase letters, digits, `-` and `_`, not starting with "langfuse".
+ */
+export function toLangfuseEnvironment(value?: string): string | undefined {
+  const environment = value?.trim().toLowerCase().replace(/[^a-z0-9_-]+/g, '-');
+  return environment && !environment.startsWith('langfuse') ? environment : undefined;
+}
+
+/**
+ * Static tags plus the tags of every rule matching the flow.
+ */
+export function resolveTraceTags(config: Pick<LangfuseConfig, 'tags' | 'tagRules'>, flowName?: string): string[] {
+  const tags = [...(config.tags || [])];
+  for (const rule of config.tagRules || []) {
+    if (flowName && globToRegExp(rule.flow).test(flowName)) {
+      tags.push(...rule.tags);
+    }
+  }
+  return tags;
+}
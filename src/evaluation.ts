@@ -0,0 +1,166 @@
+import { createHash } from 'crypto';
+import { Langfuse } from 'langfuse';
+import { createLangfuseClient } from './client.js';
+import { PluginLogger } from './logger.js';
+import { createScoreBody } from './scores.js';
+import type {
+  EvalRunExportOptions,
+  EvalRunExportResult,
+  GenkitEvalMetric,
+  GenkitEvalResult,
+  GenkitEvalRun,
+  LangfuseConfig,
+} from './types.js';
+
+/**
+ * Exports Genkit eval runs to Langfuse as dataset runs.
+ *
+ * Each test case becomes a dataset item, is linked to the trace of the flow
+ * run that produced its output, and gets one score per evaluator on that
+ * trace. Items and scores have stable IDs, so exporting a run again updates
+ * it instead of duplicating it.
+ */
+export class LangfuseEvalExporter {
+  private readonly langfuse: Langfuse;
+  private readonly logger: PluginLogger;
+
+  constructor(client: Langfuse | Partial<LangfuseConfig> = {}, logger?: PluginLogger) {
+    this.langfuse = createLangfuseClient(client);
+    this.logger = logger || (client instanceof Langfuse ? new PluginLogger() : PluginLogger.fromConfig(client));
+  }
+
+  /**
+   * Export an eval run, creating the dataset and its items as needed.
+   */
+  async exportEvalRun(evalRun: GenkitEvalRun, options: EvalRunExportOptions = {}): Promise<EvalRunExportResult> {
+    const datasetName = options.datasetName || defaultDatasetName(evalRun);
+    const runName = options.runName || evalRun.key.evalRunId;
+    const itemId = options.itemId || defaultItemId;
+    const result: EvalRunExportResult = { datasetName, runName, items: 0, linkedItems: 0, scores: 0, skipped: [] };
+    const logger = this.logger.child({ evalRunId: evalRun.key.evalRunId, datasetName });
+
+    await this.langfuse.createDataset({
+      name: datasetName,
+      metadata: {
+        genkit: true,
+        genkitDatasetId: evalRun.key.datasetId,
+        genkitDatasetVersion: evalRun.key.datasetVersion,
+      },
+    });
+
+    for (const testCase of evalRun.results) {
+      const datasetItemId = itemId(testCase, datasetName);
+      await this.langfuse.createDatasetItem({
+        datasetName,
+        id: datasetItemId,
+        input: testCase.input,
+        expectedOutput: testCase.reference,
+        metadata: { genkitTestCaseId: testCase.testCaseId, context: testCase.context },
+      });
+      result.items++;
+
+      const traceId = testCase.traceIds?.[0];
+      if (!traceId) {
+        result.skipped.push({ testCaseId: testCase.testCaseId, reason: 'No flow trace recorded' });
+        continue;
+      }
+
+      await this.langfuse.createDatasetRunItem({
+        runName,
+        runDescription: options.runDescription,
+        metadata: {
+          ...options.metadata,
+          genkitEvalRunId: evalRun.key.evalRunId,
+          actionRef: evalRun.key.actionRef,
+        },
+        datasetItemId,
+        traceId,
+      });
+      result.linkedItems++;
+
+      for (const metric of testCase.metrics || []) {
+        const reason = this.recordScore(evalRun, testCase, metric, traceId);
+        if (reason) {
+          result.skipped.push({ testCaseId: testCase.testCaseId, evaluator: metric.evaluator, reason });
+        } else {
+          result.scores++;
+        }
+      }
+    }
+
+    await this.langfuse.flushAsync();
+
+    if (result.skipped.length > 0) {
+      logger.warn(`Skipped ${result.skipped.length} test cases or metrics of the eval run`, { skipped: result.skipped });
+    }
+    logger.info(`Exported eval run to Langfuse dataset run ${runName}`, {
+      items: result.items,
+      linkedItems: result.linkedItems,
+      scores: result.scores,
+    });
+    return result;
+  }
+
+  /**
+   * Record an evaluator result as a score on the flow trace.
+   *
+   * @returns Why the metric was skipped, if it was
+   */
+  private recordScore(
+    evalRun: GenkitEvalRun,
+    testCase: GenkitEvalResult,
+    metric: GenkitEvalMetric,
+    traceId: string
+  ): string | undefined {
+    if (metric.error) {
+      return `Evaluator failed: ${metric.error}`;
+    }
+
+    // Evaluators that only report pass/fail become boolean scores
+    const value = metric.score ?? (metric.status === 'PASS' || metric.status === 'FAIL'
+      ? metric.status === 'PASS'
+      : undefined);
+    if (value === undefined) {
+      return 'Evaluator returned no score';
+    }
+
+    try {
+      this.langfuse.score(createScoreBody({
+        id: stableId(evalRun.key.evalRunId, testCase.testCaseId, metric.evaluator),
+        traceId,
+        name: metric.evaluator,
+        value,
+        comment: metric.rationale,
+        metadata: {
+          genkitEvalRunId: evalRun.key.evalRunId,
+          status: metric.status,
+          evaluatorTraceId: metric.traceId,
+        },
+      }) as any);
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Dataset name for an eval run: the Genkit dataset, or the evaluated action
+ * for runs over ad hoc inputs.
+ */
+function defaultDatasetName(evalRun: GenkitEvalRun): string {
+  if (evalRun.key.datasetId) {
+    return evalRun.key.datasetId;
+  }
+  // Action references look like `/flow/myFlow`
+  const action = evalRun.key.actionRef?.split('/').filter(Boolean).pop();
+  return action ? `genkit-eval-${action}` : 'genkit-eval';
+}
+
+function defaultItemId(testCase: GenkitEvalResult, datasetName: string): string {
+  return stableId(datasetName, testCase.testCaseId);
+}
+
+function stableId(...parts: string[]): string {
+  return createHash('sha256').update(parts.join('\u0000')).digest('hex').slice(0, 32);
+}
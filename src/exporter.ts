@@ -4,141 +4,343 @@ import type {
   SpanExporter,
 } from '@opentelemetry/sdk-trace-base';
 import { ExportResult, ExportResultCode } from '@opentelemetry/core';
-import { Langfuse } from 'langfuse';
-import type { LangfuseConfig } from './types.js';
-import { SpanMetadataExtractor } from './metadata-extractor.js';
+import type {
+  IngestionEvent,
+  IngestionEventError,
+  LangfuseConfig,
+  LangfuseObservationType,
+  LangfuseScore,
+  LangfuseTraceContext,
+  TokenUsage,
+} from './types.js';
+import { SpanMetadataExtractor, type ExtractedMetadata } from './metadata-extractor.js';
+import { isSampled, SpanFilter, type FilteredSpan } from './span-filter.js';
+import { TailSampler } from './tail-sampling.js';
+import { Redactor } from './redaction.js';
+import { ModelPricing } from './pricing.js';
+import { ExportSpool } from './spool.js';
+import { IngestionClient } from './ingestion-client.js';
+import { OtlpBatch, OtlpTransport } from './otlp.js';
+import { PluginLogger } from './logger.js';
+import { createScoreBody, type ScoreTarget } from './scores.js';
+import { LangfuseMediaSink, MediaProcessor } from './media.js';
+import { PayloadTruncator } from './truncation.js';
+import { ObservationTypeMapper } from './observation-types.js';
+import { documentText, formatRetrieval } from './retrieval.js';
+import { extractSpanError } from './status.js';
+import { SpanEventConverter } from './span-events.js';
+import { mergeTraceContexts } from './trace-context.js';
+import { resolveDeployment, resolveTraceTags, type DeploymentInfo } from './deployment.js';
+import {
+  checkEventSize,
+  DeliveryTracker,
+  IngestionResults,
+  LangfuseExportError,
+  type DeliveryBatch,
+  type FlushedItem,
+  type FlushOutcome,
+} from './delivery.js';
+
+/** Rough token estimate for embedders that do not report usage */
+const CHARACTERS_PER_TOKEN = 4;
+
+/** Traces whose root has not been exported yet that remember a failure or context */
+const MAX_PENDING_TRACES = 1000;
+
+/**
+ * Remember a value until the root of its trace is exported, forgetting the
+ * oldest trace when too many are pending.
+ */
+function rememberForTrace<T>(traces: Map<string, T>, traceId: string, value: T): void {
+  if (!traces.has(traceId) && traces.size >= MAX_PENDING_TRACES) {
+    traces.delete(traces.keys().next().value!);
+  }
+  traces.set(traceId, value);
+}
 
 /**
  * Langfuse OpenTelemetry span exporter that sends Genkit traces to Langfuse.
  */
-export class LangfuseExporter implements SpanExporter {
-  private langfuse: Langfuse;
+export class LangfuseExporter implements SpanExporter, ScoreTarget {
+  private langfuse: IngestionClient;
   private config: LangfuseConfig;
+  private spanFilter: SpanFilter;
+  private tailSampler: TailSampler;
+  private redactor: Redactor;
+  private pricing: ModelPricing;
+  private logger: PluginLogger;
+  private spool?: ExportSpool;
+  private otlp?: OtlpTransport;
+  private media: MediaProcessor;
+  private pendingMedia = new Set<Promise<void>>();
+  private truncator: PayloadTruncator;
+  private observationTypes: ObservationTypeMapper;
+  private spanEvents: SpanEventConverter;
+  private failedTraces = new Map<string, string>();
+  private traceContexts = new Map<string, LangfuseTraceContext>();
+  private delivery = new DeliveryTracker();
+  private ingestionResults = new IngestionResults();
+  private rejectedEvents: FlushOutcome['failed'] = [];
+  private exportedEvents?: IngestionEvent[];
+  private otlpBatch?: OtlpBatch;
+  private otlpParents = new WeakMap<ReadableSpan, string | undefined>();
+  private flushCount: number = 0;
   private exportCount: number = 0;
 
-  constructor(config: LangfuseConfig) {
+  constructor(config: LangfuseConfig, logger: PluginLogger = PluginLogger.fromConfig(config)) {
     this.config = config;
+    this.logger = logger;
+    this.spanFilter = new SpanFilter(config.spanFilter);
+    this.tailSampler = new TailSampler(config.tailSampling, (span, metadata) => this.estimateCost(span, metadata));
+    this.redactor = new Redactor(config.redaction);
+    this.pricing = new ModelPricing(config.pricing);
+    this.media = new MediaProcessor(
+      config.media || {},
+      new LangfuseMediaSink(config),
+      logger.child({ component: 'media' })
+    );
+    this.truncator = new PayloadTruncator(config.truncation);
+    this.observationTypes = new ObservationTypeMapper(config.observationTypes);
+    this.spanEvents = new SpanEventConverter(config.spanEvents);
     
-    if (config.debug) {
-      console.log('🔧 [DEBUG] Initializing Langfuse exporter with config:', {
-        baseUrl: config.baseUrl,
-        publicKey: config.publicKey ? `${config.publicKey.substring(0, 8)}...` : 'undefined',
-        secretKey: config.secretKey ? `${config.secretKey.substring(0, 8)}...` : 'undefined',
-        flushAt: config.flushAt || 20,
-        flushInterval: config.flushInterval || 10000,
-      });
-    }
+    this.logger.debug('Initializing Langfuse exporter', {
+      baseUrl: config.baseUrl,
+      publicKey: config.publicKey ? `${config.publicKey.substring(0, 8)}...` : 'undefined',
+      secretKey: config.secretKey,
+      flushAt: config.flushAt || 20,
+      flushInterval: config.flushInterval || 10000,
+    });
     
-    this.langfuse = new Langfuse({
+    this.langfuse = new IngestionClient({
       secretKey: config.secretKey,
       publicKey: config.publicKey,
       baseUrl: config.baseUrl,
       flushAt: config.flushAt || 20,
       flushInterval: config.flushInterval || 10000,
-    });
+      environment: config.environment,
+      release: config.release,
+    }, (items, status, body, error) => this.ingestionResults.record(items, status, body, error));
 
-    // Add comprehensive error handling and debug logging
     this.langfuse.on('error', (error) => {
-      console.error('🚨 [ERROR] Langfuse SDK error:', error);
-      if (config.debug) {
-        console.error('🔍 [DEBUG] Error details:', {
-          message: error.message,
-          stack: error.stack,
-          name: error.name,
-        });
-      }
+      this.logger.error('Langfuse SDK error', { error });
     });
-    
-    // Add HTTP success debugging if available
-    if (config.debug && this.langfuse.on) {
-      // Try to listen for success events if the SDK supports them
-      try {
-        this.langfuse.on('trace', () => {
-          console.log('✅ [DEBUG] Langfuse trace event sent successfully');
-        });
-      } catch (e) {
-        // SDK might not support this event
-      }
-    }
 
-    // Add debug logging for successful operations
-    if (config.debug) {
-      this.langfuse.on('flush', () => {
-        console.log('✅ [DEBUG] Langfuse flush completed');
-      });
+    // Emitted once a request and its retries have finished
+    this.langfuse.on('flush', (items) => {
+      this.logger.trace('Langfuse flush completed', { events: items?.length });
+      this.handleFlush(items);
+    });
+
+    if (config.transport === 'otlp') {
+      this.otlp = new OtlpTransport(config);
+    } else if (config.spool) {
+      this.initializeSpool();
     }
 
+    this.logger.debug('Langfuse exporter initialized');
     if (config.debug) {
-      console.log('✅ [DEBUG] Langfuse exporter initialized successfully');
       this.testConnection();
     }
   }
 
   /**
-   * Export spans to Langfuse.
+   * Export spans to Langfuse. The result is reported once Langfuse has
+   * accepted or rejected every event produced from the spans.
    */
   export(
     spans: ReadableSpan[],
     resultCallback: (result: ExportResult) => void
   ): void {
     this.exportCount++;
-    if (this.config.debug) {
-      console.log(`📤 [DEBUG] Export #${this.exportCount}: Exporting ${spans.length} spans to Langfuse`);
-      spans.forEach((span, index) => {
-        console.log(`    Span ${index + 1}: ${span.name} (${span.spanContext().spanId})`);
-      });
+    const logger = this.logger.child({ exportCount: this.exportCount });
+    logger.debug(`Exporting ${spans.length} spans to Langfuse`);
+    if (logger.isEnabled('trace')) {
+      for (const span of spans) {
+        logger.trace(`Exporting span ${span.name}`, {
+          traceId: span.spanContext().traceId,
+          spanId: span.spanContext().spanId,
+        });
+      }
     }
     
+    const events: IngestionEvent[] = [];
+    const otlpBatch = this.otlp ? new OtlpBatch() : undefined;
+    let errorCount = 0;
+
     try {
       let successCount = 0;
-      let errorCount = 0;
       
+      this.exportedEvents = events;
+      this.otlpBatch = otlpBatch;
       for (const span of spans) {
         try {
-          this.processSpan(span);
+          if (!this.isInSample(span.spanContext().traceId)) {
+            successCount++;
+            continue;
+          }
+          const metadata = SpanMetadataExtractor.extractMetadata(span);
+          for (const sampled of this.tailSampler.accept(span, metadata)) {
+            for (const filtered of this.spanFilter.accept(sampled.span, sampled.metadata)) {
+              this.processSpan(filtered);
+            }
+          }
           successCount++;
         } catch (spanError) {
           errorCount++;
-          console.error(`🚨 [ERROR] Failed to process span ${span.name}:`, spanError);
-          if (this.config.debug) {
-            console.error('🔍 [DEBUG] Span details:', {
-              spanId: span.spanContext().spanId,
+          logger.error(`Failed to process span ${span.name}`, {
+            traceId: span.spanContext().traceId,
+            spanId: span.spanContext().spanId,
+            error: spanError,
+          });
+          if (logger.isEnabled('debug')) {
+            logger.debug('Failed span attributes', {
               traceId: span.spanContext().traceId,
-              name: span.name,
+              spanId: span.spanContext().spanId,
               attributes: span.attributes,
             });
           }
         }
       }
       
-      if (this.config.debug) {
-        console.log(`📊 [DEBUG] Export summary: ${successCount} successful, ${errorCount} failed`);
-      }
-      
-      // Trigger immediate flush for debug visibility with success logging
-      if (this.config.debug && successCount > 0) {
-        this.langfuse.flushAsync()
-          .then(() => {
-            console.log('✅ [DEBUG] Post-export flush completed successfully');
-          })
-          .catch(error => {
-            console.error('🚨 [ERROR] Failed to flush after export:', error);
-          });
-      }
-      
-      resultCallback({ code: ExportResultCode.SUCCESS });
+      logger.debug(`Export summary: ${successCount} successful, ${errorCount} failed`, {
+        successCount,
+        errorCount,
+        pendingSpans: this.spanFilter.pendingSpans,
+        bufferedSpans: this.tailSampler.bufferedSpans,
+      });
     } catch (error) {
-      console.error('🚨 [ERROR] Langfuse export error:', error);
-      if (this.config.debug) {
-        console.error('🔍 [DEBUG] Export error details:', {
-          message: error instanceof Error ? error.message : String(error),
-          stack: error instanceof Error ? error.stack : undefined,
+      this.reportExportError(error, resultCallback, logger);
+      return;
+    } finally {
+      this.exportedEvents = undefined;
+      this.otlpBatch = undefined;
+    }
+
+    const processingError = errorCount > 0
+      ? new LangfuseExportError(`Failed to process ${errorCount} of ${spans.length} spans`, false)
+      : undefined;
+    if (events.length === 0) {
+      resultCallback(processingError
+        ? { code: ExportResultCode.FAILED, error: processingError }
+        : { code: ExportResultCode.SUCCESS });
+      return;
+    }
+
+    if (this.otlp && otlpBatch) {
+      this.exportOverOtlp(this.otlp, otlpBatch, events, processingError, resultCallback, logger);
+      return;
+    }
+
+    // Report the export once Langfuse has answered for every event it produced
+    const batch = this.delivery.track(events, this.config.exportTimeoutMillis ?? 30000);
+    this.settleRejectedEvents();
+    batch.result
+      .then((eventErrors) => {
+        if (eventErrors.length > 0) {
+          throw new LangfuseExportError(
+            `Langfuse rejected ${eventErrors.length} of ${events.length} events: ${eventErrors[0].message}`,
+            eventErrors.every(eventError => eventError.retryable),
+            eventErrors
+          );
+        }
+        if (processingError) {
+          throw processingError;
+        }
+        logger.debug(`Langfuse accepted ${events.length} events`);
+        resultCallback({ code: ExportResultCode.SUCCESS });
+      })
+      .catch(error => this.reportExportError(error, resultCallback, logger));
+
+    this.flushUntilDelivered(batch).catch(error => {
+      logger.error('Failed to flush after export', { error });
+    });
+  }
+
+  /**
+   * Send the spans the export collected for the OTLP transport and report
+   * the result.
+   */
+  private exportOverOtlp(
+    otlp: OtlpTransport,
+    batch: OtlpBatch,
+    events: IngestionEvent[],
+    processingError: LangfuseExportError | undefined,
+    resultCallback: (result: ExportResult) => void,
+    logger: PluginLogger
+  ): void {
+    this.settleMedia()
+      .then(() => otlp.flush(batch))
+      .then((result) => {
+        if (result.code !== ExportResultCode.SUCCESS) {
+          throw new LangfuseExportError(
+            `Langfuse OTLP endpoint rejected ${events.length} events: ${result.error?.message ?? 'unknown error'}`,
+            true
+          );
+        }
+        if (processingError) {
+          throw processingError;
+        }
+        logger.debug(`Langfuse accepted ${events.length} events over OTLP`);
+        resultCallback({ code: ExportResultCode.SUCCESS });
+      })
+      .catch(error => this.reportExportError(error, resultCallback, logger));
+  }
+
+  /**
+   * Log an export failure and report it to OpenTelemetry.
+   */
+  private reportExportError(
+    error: unknown,
+    resultCallback: (result: ExportResult) => void,
+    logger: PluginLogger
+  ): void {
+    logger.error('Langfuse export failed', {
+      error,
+      retryable: error instanceof LangfuseExportError ? error.retryable : undefined,
+      eventErrors: error instanceof LangfuseExportError ? error.eventErrors : undefined,
+    });
+    resultCallback({ 
+      code: ExportResultCode.FAILED, 
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+  }
+
+  /**
+   * Flush the Langfuse client until every event of the batch has been sent.
+   */
+  private async flushUntilDelivered(batch: DeliveryBatch): Promise<void> {
+    await this.settleMedia();
+    while (!batch.settled) {
+      const flushCount = this.flushCount;
+      await this.langfuse.flushAsync();
+      if (this.flushCount === flushCount) {
+        // Queue is empty; the remaining events are in a request already in flight
+        return;
+      }
+    }
+  }
+
+  /**
+   * Resolve exports and spooled events with the result of an ingestion
+   * request. Events the SDK kept queued stay pending until they are sent.
+   */
+  private handleFlush(items: FlushedItem[]): void {
+    this.flushCount++;
+    const outcome = this.ingestionResults.complete(items);
+    this.delivery.settle(outcome);
+
+    if (this.spool) {
+      const retryable = outcome.failed.filter(failure => failure.error.retryable);
+      const fatal = outcome.failed.filter(failure => !failure.error.retryable);
+      if (fatal.length > 0) {
+        this.logger.error(`Langfuse rejected ${fatal.length} spooled events, discarding them`, {
+          eventErrors: fatal.map(failure => failure.error),
         });
       }
-      resultCallback({ 
-        code: ExportResultCode.FAILED, 
-        error: error instanceof Error ? error : new Error(String(error))
-      });
+      this.spool.acknowledge([...outcome.delivered, ...fatal.map(failure => failure.event)]);
+      if (retryable.length > 0) {
+        this.spool.acknowledge(retryable.map(failure => failure.event), retryable[0].error);
+      }
     }
   }
 
@@ -149,8 +351,7 @@ export class LangfuseExporter implements SpanExporter {
     if (!this.config.debug) return;
     
     try {
-      console.log('🔍 [DEBUG] Testing Langfuse connection...');
-      console.log('🔍 [DEBUG] Langfuse API URL:', this.config.baseUrl);
+      this.logger.debug('Testing Langfuse connection', { baseUrl: this.config.baseUrl });
       
       // Create a simple test trace to verify connectivity
       const testTrace = {
@@ -163,29 +364,58 @@ export class LangfuseExporter implements SpanExporter {
       this.langfuse.trace(testTrace);
       
       // Attempt immediate flush
-      console.log('🔍 [DEBUG] Flushing connection test trace...');
       await this.langfuse.flushAsync();
-      console.log('✅ [DEBUG] Langfuse connection test completed');
+      this.logger.debug('Langfuse connection test completed');
     } catch (error) {
-      console.error('🚨 [ERROR] Langfuse connection test failed:', error);
+      this.logger.error('Langfuse connection test failed', { error });
     }
   }
 
+  /**
+   * Attach a score to an exported trace or observation. The score is sent
+   * with the next batch, through the spool if enabled.
+   *
+   * @returns ID of the score
+   * @throws TypeError if the score is invalid
+   */
+  score(score: LangfuseScore): string {
+    const body = createScoreBody(score);
+    if (!this.isInSample(body.traceId)) {
+      this.logger.trace(`Skipping Langfuse score ${body.name} of an unsampled trace`, { traceId: body.traceId });
+      return body.id;
+    }
+    this.logger.debug(`Recording Langfuse score ${body.name}`, {
+      traceId: body.traceId,
+      observationId: body.observationId,
+      dataType: body.dataType,
+    });
+    this.send({ type: 'score-create', body });
+    return body.id;
+  }
+
+  /**
+   * Whether a trace is within `sampleRate`. Traces outside the sample are
+   * neither tracked, spooled nor sent.
+   */
+  private isInSample(traceId: string | undefined): boolean {
+    return this.config.sampleRate === undefined || !traceId || isSampled(traceId, this.config.sampleRate);
+  }
+
   /**
    * Shutdown the exporter.
    */
   async shutdown(): Promise<void> {
-    if (this.config.debug) {
-      console.log('🔄 [DEBUG] Shutting down Langfuse exporter...');
-    }
+    this.logger.debug('Shutting down Langfuse exporter');
     
     try {
+      this.drainFilteredSpans();
+      await this.settleMedia();
+      await this.otlp?.shutdown();
       await this.langfuse.shutdownAsync();
-      if (this.config.debug) {
-        console.log('✅ [DEBUG] Langfuse exporter shutdown completed');
-      }
+      this.spool?.close();
+      this.logger.debug('Langfuse exporter shutdown completed');
     } catch (error) {
-      console.error('🚨 [ERROR] Error during Langfuse exporter shutdown:', error);
+      this.logger.error('Error during Langfuse exporter shutdown', { error });
       throw error;
     }
   }
@@ -194,106 +424,235 @@ export class LangfuseExporter implements SpanExporter {
    * Force flush all pending spans.
    */
   async forceFlush(): Promise<void> {
-    if (this.config.debug) {
-      console.log('🔄 [DEBUG] Force flushing Langfuse data...');
-    }
+    this.logger.debug('Force flushing Langfuse data');
     
     try {
+      this.drainFilteredSpans();
+      await this.settleMedia();
+      await this.otlp?.forceFlush();
       await this.langfuse.flushAsync();
-      if (this.config.debug) {
-        console.log('✅ [DEBUG] Langfuse force flush completed');
-      }
+      this.logger.debug('Langfuse force flush completed');
     } catch (error) {
-      console.error('🚨 [ERROR] Error during Langfuse force flush:', error);
+      this.logger.error('Error during Langfuse force flush', { error });
       throw error;
     }
   }
 
+  /**
+   * Set up the on-disk spool and redeliver events left by a previous process.
+   */
+  private initializeSpool(): void {
+    this.spool = new ExportSpool(this.config.spool!, {
+      send: (event) => this.dispatch(event),
+      flush: () => this.langfuse.flushAsync(),
+    }, this.logger.child({ component: 'spool' }));
+
+    if (this.spool.pendingEvents > 0) {
+      this.logger.info(`Replaying ${this.spool.pendingEvents} spooled Langfuse events`);
+      this.spool.replay().catch(error => {
+        this.logger.error('Failed to replay spooled Langfuse events', { error });
+      });
+    }
+  }
+
+  /**
+   * Send an event to Langfuse. Events with inline media are held back until
+   * the media has been uploaded or stripped.
+   *
+   * @param span Span the event was created from, required by the OTLP transport
+   */
+  private send(event: IngestionEvent, span?: ReadableSpan): void {
+    this.exportedEvents?.push(event);
+    const otlpBatch = this.otlpBatch;
+    if (!this.media.containsMedia(event)) {
+      this.enqueue(event, span, otlpBatch);
+      return;
+    }
+
+    const pending: Promise<void> = this.media.process(event)
+      .then(
+        (replaced) => this.logger.trace(`Replaced ${replaced} inline media items`, { eventType: event.type }),
+        (error) => this.logger.error('Failed to process inline media', { error, eventType: event.type })
+      )
+      .then(() => this.enqueue(event, span, otlpBatch))
+      .finally(() => this.pendingMedia.delete(pending));
+    this.pendingMedia.add(pending);
+  }
+
+  /**
+   * Wait for events held back by media processing to be enqueued.
+   */
+  private async settleMedia(): Promise<void> {
+    while (this.pendingMedia.size > 0) {
+      await Promise.all(this.pendingMedia);
+    }
+  }
+
+  /**
+   * Enqueue an event, persisting it to the spool first if enabled. Payloads
+   * are truncated to the configured size limits first.
+   */
+  private enqueue(event: IngestionEvent, span?: ReadableSpan, otlpBatch?: OtlpBatch): void {
+    const originalSize = this.truncator.truncate(event.body);
+    if (Object.keys(originalSize).length > 0) {
+      this.logger.debug('Truncated oversized payload', { eventType: event.type, id: event.body.id, originalSize });
+    }
+    const sizeError = this.otlp ? undefined : checkEventSize(event);
+    if (sizeError) {
+      this.rejectEvent(event, sizeError);
+      return;
+    }
+    if (this.spool) {
+      try {
+        this.spool.append(event);
+      } catch (error) {
+        this.logger.error('Failed to write Langfuse event to spool', { error, eventType: event.type });
+      }
+    }
+    this.dispatch(event, span, otlpBatch);
+  }
+
+  /**
+   * Fail an event the SDK would drop without sending it. Events of a running
+   * export are failed once the export is tracked.
+   */
+  private rejectEvent(event: IngestionEvent, error: IngestionEventError): void {
+    this.logger.error(`Langfuse ${event.type} exceeds the ingestion size limit, discarding it`, { eventError: error });
+    this.rejectedEvents.push({ event, error });
+    if (!this.exportedEvents) {
+      this.settleRejectedEvents();
+    }
+  }
+
+  private settleRejectedEvents(): void {
+    if (this.rejectedEvents.length === 0) return;
+    this.delivery.settle({ delivered: [], failed: this.rejectedEvents });
+    this.rejectedEvents = [];
+  }
+
+  /**
+   * Hand an event to the Langfuse client, or to the OTLP transport for
+   * events created from a span.
+   *
+   * @param otlpBatch OTLP batch of the export that created the event
+   */
+  private dispatch(event: IngestionEvent, span?: ReadableSpan, otlpBatch?: OtlpBatch): void {
+    if (this.otlp && span) {
+      this.otlp.add(event, span, this.otlpParents.get(span), otlpBatch);
+      return;
+    }
+    const body = event.body as any;
+    switch (event.type) {
+      case 'trace-create':
+        this.langfuse.trace(body);
+        break;
+      case 'span-create':
+        this.langfuse.span(body);
+        break;
+      case 'generation-create':
+        this.langfuse.generation(body);
+        break;
+      case 'event-create':
+        this.langfuse.event(body);
+        break;
+      case 'score-create':
+        this.langfuse.score(body);
+        break;
+      default:
+        this.langfuse.observation(event.type, body);
+        break;
+    }
+  }
+
+  /**
+   * Export spans the sampler and filter are still holding back, keeping
+   * their original parents.
+   */
+  private drainFilteredSpans(): void {
+    const filteredSpans = this.tailSampler.drain()
+      .flatMap(sampled => this.spanFilter.accept(sampled.span, sampled.metadata))
+      .concat(this.spanFilter.drain());
+    for (const filtered of filteredSpans) {
+      try {
+        this.processSpan(filtered);
+      } catch (error) {
+        this.spanLogger(filtered.span).error(`Failed to process span ${filtered.span.name}`, { error });
+      }
+    }
+  }
+
   /**
    * Process a single span and send to Langfuse.
+   * 
+   * The parent after span filtering may differ from `span.parentSpanId` when
+   * the original parent was dropped. Children of the trace root get no
+   * parent observation, since the root is exported as the trace; the OTLP
+   * transport sends the root as a span and keeps them below it.
    */
-  private processSpan(span: ReadableSpan): void {
-    const metadata = SpanMetadataExtractor.extractMetadata(span);
+  private processSpan({ span, metadata, parentSpanId: parentOtlpSpanId, parentIsTraceRoot }: FilteredSpan): void {
+    const parentSpanId = parentIsTraceRoot ? undefined : parentOtlpSpanId;
+    if (this.otlp) this.otlpParents.set(span, parentOtlpSpanId);
     const spanType = this.determineSpanType(span, metadata);
+    const logger = this.spanLogger(span);
+
+    logger.debug(`Processing span ${span.name}`, {
+      type: spanType,
+      path: metadata.path,
+      parentSpanId,
+      durationMs: hrTimeToMilliseconds(span.endTime) - hrTimeToMilliseconds(span.startTime),
+    });
 
-    if (this.config.debug) {
-      console.log(`🔍 [DEBUG] Processing span: ${span.name}`);
-      console.log(`    Type: ${spanType}`);
-      console.log(`    Path: ${metadata.path || 'unknown'}`);
-      console.log(`    SpanID: ${span.spanContext().spanId}`);
-      console.log(`    TraceID: ${span.spanContext().traceId}`);
-      console.log(`    ParentID: ${span.parentSpanId || 'none'}`);
-      console.log(`    Duration: ${hrTimeToMilliseconds(span.endTime) - hrTimeToMilliseconds(span.startTime)}ms`);
+    // withLangfuseContext may have been entered inside the flow, after its span started
+    if (spanType !== 'trace' && metadata.traceContext) {
+      const traceId = span.spanContext().traceId;
+      // Spans end innermost first, so contexts recorded earlier are the more specific ones
+      const context = mergeTraceContexts(metadata.traceContext, this.traceContexts.get(traceId));
+      rememberForTrace(this.traceContexts, traceId, context);
     }
 
     try {
       switch (spanType) {
         case 'generation':
-          this.createGeneration(span, metadata);
+          this.createGeneration(span, metadata, parentSpanId);
+          break;
+        case 'embedding':
+          this.createEmbedding(span, metadata, parentSpanId);
           break;
         case 'trace':
           this.createTrace(span, metadata);
           break;
-        case 'span':
-          this.createSpan(span, metadata);
-          break;
         default:
-          if (this.config.debug) {
-            console.log(`⚠️  [WARNING] Skipping span with unknown type: ${span.name} (type: ${spanType})`);
-          }
-          return;
-      }
-      
-      if (this.config.debug) {
-        console.log(`✅ [DEBUG] Successfully created Langfuse ${spanType}: ${span.name}`);
+          this.createSpan(span, metadata, parentSpanId, spanType);
+          break;
       }
+      this.createEvents(span, spanType === 'trace' ? undefined : span.spanContext().spanId);
     } catch (error) {
-      console.error(`🚨 [ERROR] Failed to create Langfuse ${spanType} for span ${span.name}:`, error);
+      logger.error(`Failed to create Langfuse ${spanType} for span ${span.name}`, { error });
       throw error; // Re-throw to be caught by export method
     }
   }
 
   /**
-   * Determine the Langfuse span type based on Genkit span data.
+   * Logger annotated with the span's trace and span IDs.
    */
-  private determineSpanType(span: ReadableSpan, metadata: any): string {
-    const spanType = metadata.spanType;
-    const path = metadata.path;
-    const name = span.name;
-
-    // Model/LLM calls are generations
-    if (spanType === 'model' || 
-        path?.includes('/model/') ||
-        name.includes('generate') ||
-        name.includes('model')) {
-      return 'generation';
-    }
-
-    // Root spans, flow spans, or spans with no parent are traces
-    if (metadata.isRoot || 
-        spanType === 'flow' ||
-        path?.includes('/flow/') ||
-        !span.parentSpanId ||
-        span.parentSpanId === '0000000000000000') {
-      return 'trace';
-    }
-
-    // Tool calls and other intermediate operations
-    if (spanType === 'tool' || 
-        path?.includes('/tool/') ||
-        name.includes('tool') ||
-        name.includes('Tool')) {
-      return 'span';
-    }
+  private spanLogger(span: ReadableSpan): PluginLogger {
+    return this.logger.child({
+      traceId: span.spanContext().traceId,
+      spanId: span.spanContext().spanId,
+    });
+  }
 
-    // Everything else is a span
-    return 'span';
+  /**
+   * Determine the Langfuse span type based on Genkit span data.
+   */
+  private determineSpanType(span: ReadableSpan, metadata: ExtractedMetadata): 'trace' | LangfuseObservationType {
+    return this.observationTypes.classify(span, metadata);
   }
 
   /**
    * Create a Langfuse generation (for LLM calls) using latest SDK v3 patterns.
    */
-  private createGeneration(span: ReadableSpan, metadata: any): void {
+  private createGeneration(span: ReadableSpan, metadata: any, parentSpanId?: string): void {
     const input = this.parseJSON(metadata.input);
     const output = this.parseJSON(metadata.output);
     const modelName = metadata.name || this.extractModelFromPath(metadata.path);
@@ -319,8 +678,8 @@ export class LangfuseExporter implements SpanExporter {
     };
 
     // Add parent span ID if available
-    if (span.parentSpanId && span.parentSpanId !== '0000000000000000') {
-      generationData.parentObservationId = span.parentSpanId;
+    if (parentSpanId) {
+      generationData.parentObservationId = parentSpanId;
     }
 
     // Add token usage in the SDK v3 format
@@ -331,21 +690,14 @@ export class LangfuseExporter implements SpanExporter {
         total: output.usage.totalTokens,
       };
 
-      // Add cost calculation if custom function provided
-      if (this.config.calculateCost) {
-        try {
-          generationData.totalCost = this.config.calculateCost(
-            modelName,
-            {
-              inputTokens: output.usage.inputTokens || 0,
-              outputTokens: output.usage.outputTokens || 0,
-              totalTokens: output.usage.totalTokens || 0,
-            }
-          );
-        } catch (error) {
-          console.warn('⚠️  [WARNING] Failed to calculate cost:', error);
-        }
-      }
+      const usage: TokenUsage = {
+        inputTokens: output.usage.inputTokens || 0,
+        outputTokens: output.usage.outputTokens || 0,
+        totalTokens: output.usage.totalTokens || 0,
+        cachedInputTokens: output.usage.cachedContentTokens,
+        thinkingTokens: output.usage.thoughtsTokens,
+      };
+      this.addCost(generationData, modelName, usage);
     }
 
     // Add session info if available
@@ -363,28 +715,157 @@ export class LangfuseExporter implements SpanExporter {
       generationData.version = metadata.version;
     }
 
-    if (this.config.debug) {
-      console.log('🤖 [DEBUG] Creating Langfuse generation with data:', {
-        id: generationData.id,
-        traceId: generationData.traceId,
-        name: generationData.name,
+    // Time to first token of streamed generations
+    if (metadata.streaming) {
+      generationData.completionStartTime = new Date(metadata.streaming.firstChunkTime);
+      generationData.metadata.streaming = {
+        chunkCount: metadata.streaming.chunkCount,
+        timeToFirstTokenMs: metadata.streaming.firstChunkTime - hrTimeToMilliseconds(span.startTime),
+        streamingDurationMs: metadata.streaming.lastChunkTime - metadata.streaming.firstChunkTime,
+      };
+    }
+
+    // Link to the Langfuse prompt the generation was rendered from
+    if (metadata.promptName && metadata.promptVersion !== undefined) {
+      generationData.promptName = metadata.promptName;
+      generationData.promptVersion = metadata.promptVersion;
+    }
+
+    this.markError(generationData, span, metadata);
+    this.applyDeployment(generationData, span);
+    this.redactPayload(generationData, 'generation', span);
+
+    const logger = this.spanLogger(span);
+    if (logger.isEnabled('debug')) {
+      logger.debug(`Creating Langfuse generation ${span.name}`, {
         model: generationData.model,
         inputSize: JSON.stringify(input || {}).length,
         outputSize: JSON.stringify(output || {}).length,
         usage: generationData.usage,
-        hasParent: !!generationData.parentObservationId,
+        parentObservationId: generationData.parentObservationId,
       });
     }
 
-    try {
-      this.langfuse.generation(generationData);
-      if (this.config.debug) {
-        console.log(`✅ [DEBUG] Langfuse generation created: ${span.name} (${modelName})`);
-      }
-    } catch (error) {
-      console.error('🚨 [ERROR] Failed to create Langfuse generation:', error);
-      throw error;
+    this.send({ type: 'generation-create', body: generationData }, span);
+  }
+
+  /**
+   * Create a Langfuse embedding observation for embedder calls. Vectors are
+   * summarized by count and dimensions instead of being sent.
+   */
+  private createEmbedding(span: ReadableSpan, metadata: any, parentSpanId?: string): void {
+    const input = this.parseJSON(metadata.input);
+    const output = this.parseJSON(metadata.output);
+    const modelName = metadata.name || this.extractModelFromPath(metadata.path);
+    const documents: any[] = Array.isArray(input?.input) ? input.input : [];
+    const embeddings: any[] = Array.isArray(output?.embeddings) ? output.embeddings : [];
+    const dimensions = embeddings[0]?.embedding?.length;
+    const inputCharacters = documents.reduce((sum, document) => sum + documentText(document).length, 0);
+
+    const embeddingData: any = {
+      id: span.spanContext().spanId,
+      traceId: span.spanContext().traceId,
+      name: span.name,
+      model: modelName,
+      input: input,
+      output: { embeddings: embeddings.length, dimensions },
+      startTime: new Date(hrTimeToMilliseconds(span.startTime)),
+      endTime: new Date(hrTimeToMilliseconds(span.endTime)),
+      metadata: {
+        genkit: true,
+        spanType: metadata.spanType,
+        path: metadata.path,
+        state: metadata.state,
+        provider: this.extractProviderFromPath(metadata.path),
+        parentSpanId: span.parentSpanId,
+        embedding: {
+          inputCount: documents.length,
+          inputCharacters,
+          embeddingCount: embeddings.length,
+          dimensions,
+        },
+      },
+    };
+
+    // Add parent span ID if available
+    if (parentSpanId) {
+      embeddingData.parentObservationId = parentSpanId;
+    }
+
+    // Only reported usage is priced; Genkit embedders rarely report it, so an
+    // estimate from the input length is kept in the metadata instead
+    if (output?.usage) {
+      const inputTokens = output.usage.inputTokens || 0;
+      const usage: TokenUsage = { inputTokens, outputTokens: 0, totalTokens: output.usage.totalTokens || inputTokens };
+      embeddingData.usage = { input: usage.inputTokens, total: usage.totalTokens };
+      this.addCost(embeddingData, modelName, usage);
+    } else if (inputCharacters > 0) {
+      embeddingData.metadata.embedding.estimatedInputTokens = Math.ceil(inputCharacters / CHARACTERS_PER_TOKEN);
     }
+
+    if (metadata.sessionId) {
+      embeddingData.sessionId = metadata.sessionId;
+    }
+    if (metadata.userId) {
+      embeddingData.userId = metadata.userId;
+    }
+
+    this.markError(embeddingData, span, metadata);
+    this.applyDeployment(embeddingData, span);
+    this.redactPayload(embeddingData, 'embedding', span);
+
+    const logger = this.spanLogger(span);
+    if (logger.isEnabled('debug')) {
+      logger.debug(`Creating Langfuse embedding ${span.name}`, {
+        model: embeddingData.model,
+        inputCount: documents.length,
+        dimensions,
+        usage: embeddingData.usage,
+        parentObservationId: embeddingData.parentObservationId,
+      });
+    }
+
+    // Without typed observations, embeddings are sent as generations
+    const type = this.observationTypes.enabled ? 'embedding-create' : 'generation-create';
+    this.send({ type, body: embeddingData }, span);
+  }
+
+  /**
+   * Add usage details and cost from the price catalog or `calculateCost`.
+   */
+  private addCost(generationData: any, modelName: string, usage: TokenUsage): void {
+    const cost = this.pricing.priceGeneration(
+      this.providerOf(generationData.metadata.path, modelName),
+      modelName,
+      usage,
+      generationData.startTime,
+      this.config.calculateCost,
+      (error) => this.logger.warn('Failed to calculate cost', { model: modelName, error })
+    );
+
+    generationData.usageDetails = cost.usageDetails;
+    if (cost.totalCost !== undefined) generationData.totalCost = cost.totalCost;
+    if (cost.costDetails) generationData.costDetails = cost.costDetails;
+    if (cost.pricing) generationData.metadata.pricing = cost.pricing;
+  }
+
+  /**
+   * Cost of a model call in USD, for tail sampling. Other spans cost nothing.
+   */
+  private estimateCost(span: ReadableSpan, metadata: ExtractedMetadata): number {
+    if (this.determineSpanType(span, metadata) !== 'generation') return 0;
+    const usage = SpanMetadataExtractor.extractUsage(span);
+    if (!usage) return 0;
+
+    const modelName = metadata.name || this.extractModelFromPath(metadata.path);
+    const cost = this.pricing.priceGeneration(
+      this.providerOf(metadata.path, modelName),
+      modelName,
+      usage,
+      new Date(hrTimeToMilliseconds(span.startTime)),
+      this.config.calculateCost
+    );
+    return cost.totalCost ?? cost.costDetails?.total ?? 0;
   }
 
   /**
@@ -393,14 +874,18 @@ export class LangfuseExporter implements SpanExporter {
   private createTrace(span: ReadableSpan, metadata: any): void {
     const input = this.parseJSON(metadata.input);
     const output = this.parseJSON(metadata.output);
+    const traceId = span.spanContext().traceId;
+    const context = mergeTraceContexts(metadata.traceContext, this.traceContexts.get(traceId));
+    this.traceContexts.delete(traceId);
 
     const trace = {
-      id: span.spanContext().traceId,
-      name: span.name,
+      id: traceId,
+      name: context.traceName || span.name,
       input: input,
       output: output,
       timestamp: new Date(hrTimeToMilliseconds(span.startTime)),
       metadata: {
+        ...context.metadata,
         spanType: metadata.spanType,
         path: metadata.path,
         state: metadata.state,
@@ -409,45 +894,73 @@ export class LangfuseExporter implements SpanExporter {
       },
     };
 
+    if (metadata.sampling) {
+      (trace.metadata as any).sampling = {
+        reason: metadata.sampling,
+        sampleRate: this.config.tailSampling?.sampleRate ?? 1,
+      };
+    }
+
     // Add session info if available
-    const sessionId = metadata.sessionId;
+    const sessionId = context.sessionId || metadata.sessionId;
     if (sessionId) {
       (trace as any).sessionId = sessionId;
     }
 
     // Add user info if available
-    const userId = metadata.userId;
+    const userId = context.userId || metadata.userId;
     if (userId) {
       (trace as any).userId = userId;
     }
 
-    if (this.config.debug) {
-      console.log('🏁 [DEBUG] Creating Langfuse trace with data:', {
-        id: trace.id,
-        name: trace.name,
+    const flowName = SpanMetadataExtractor.extractFlowName(metadata.path) || span.name;
+    const tags = [...new Set([...resolveTraceTags(this.config, flowName), ...(context.tags || [])])];
+
+    // Flag traces whose flow or any observation failed
+    const errorMessage = extractSpanError(span, metadata.state)?.statusMessage ?? this.failedTraces.get(traceId);
+    this.failedTraces.delete(traceId);
+    if (errorMessage !== undefined) {
+      if (!tags.includes('error')) tags.push('error');
+      Object.assign(trace.metadata, { error: true, errorMessage });
+    }
+    if (tags.length > 0) {
+      (trace as any).tags = tags;
+    }
+
+    const deployment = this.applyDeployment(trace, span);
+    if (deployment.release) {
+      (trace as any).release = deployment.release;
+    }
+    if (deployment.serviceName) {
+      (trace.metadata as any).serviceName = deployment.serviceName;
+    }
+
+    this.redactPayload(trace, 'trace', span);
+
+    const logger = this.spanLogger(span);
+    if (logger.isEnabled('debug')) {
+      logger.debug(`Creating Langfuse trace ${span.name}`, {
         inputSize: JSON.stringify(input || {}).length,
         outputSize: JSON.stringify(output || {}).length,
-        duration: trace.metadata.duration,
+        durationMs: trace.metadata.duration,
         hasSession: !!sessionId,
         hasUser: !!userId,
       });
     }
 
-    try {
-      this.langfuse.trace(trace);
-      if (this.config.debug) {
-        console.log(`✅ [DEBUG] Langfuse trace created: ${span.name}`);
-      }
-    } catch (error) {
-      console.error('🚨 [ERROR] Failed to create Langfuse trace:', error);
-      throw error;
-    }
+    this.send({ type: 'trace-create', body: trace }, span);
   }
 
   /**
-   * Create a Langfuse span (for intermediate operations).
+   * Create a Langfuse span, or a typed observation such as a tool call or
+   * retrieval, for intermediate operations.
    */
-  private createSpan(span: ReadableSpan, metadata: any): void {
+  private createSpan(
+    span: ReadableSpan,
+    metadata: any,
+    parentSpanId?: string,
+    observationType: LangfuseObservationType = 'span'
+  ): void {
     const input = this.parseJSON(metadata.input);
     const output = this.parseJSON(metadata.output);
 
@@ -469,38 +982,128 @@ export class LangfuseExporter implements SpanExporter {
     };
 
     // Add parent span ID if available
-    if (span.parentSpanId && span.parentSpanId !== '0000000000000000') {
-      langfuseSpan.parentObservationId = span.parentSpanId;
+    if (parentSpanId) {
+      langfuseSpan.parentObservationId = parentSpanId;
     }
 
-    if (this.config.debug) {
-      console.log('🔗 [DEBUG] Creating Langfuse span with data:', {
-        id: langfuseSpan.id,
-        traceId: langfuseSpan.traceId,
-        name: langfuseSpan.name,
+    const actionName = metadata.name || span.name;
+    switch (observationType) {
+      case 'tool':
+        // The span input holds the tool arguments
+        langfuseSpan.metadata.toolName = actionName;
+        break;
+      case 'retriever': {
+        langfuseSpan.metadata.retriever = actionName;
+        const retrieval = formatRetrieval(
+          input,
+          output,
+          hrTimeToMilliseconds(span.endTime) - hrTimeToMilliseconds(span.startTime),
+          this.config.retrieval
+        );
+        if (retrieval) {
+          langfuseSpan.input = retrieval.input;
+          langfuseSpan.output = retrieval.output;
+          langfuseSpan.metadata.retrieval = retrieval.stats;
+        }
+        break;
+      }
+      case 'evaluator':
+        langfuseSpan.metadata.evaluator = actionName;
+        break;
+    }
+
+    this.markError(langfuseSpan, span, metadata);
+    this.applyDeployment(langfuseSpan, span);
+    this.redactPayload(langfuseSpan, observationType, span);
+
+    const logger = this.spanLogger(span);
+    if (logger.isEnabled('debug')) {
+      logger.debug(`Creating Langfuse ${observationType} ${span.name}`, {
         inputSize: JSON.stringify(input || {}).length,
         outputSize: JSON.stringify(output || {}).length,
-        hasParent: !!langfuseSpan.parentObservationId,
+        parentObservationId: langfuseSpan.parentObservationId,
       });
     }
 
-    try {
-      this.langfuse.span(langfuseSpan);
-      if (this.config.debug) {
-        console.log(`✅ [DEBUG] Langfuse span created: ${span.name} (parent: ${span.parentSpanId || 'none'})`);
-      }
-    } catch (error) {
-      console.error('🚨 [ERROR] Failed to create Langfuse span:', error);
-      throw error;
+    this.send({ type: `${observationType}-create`, body: langfuseSpan }, span);
+  }
+
+  /**
+   * Set the Langfuse environment and version of a trace or observation
+   * from the config and the span's resource attributes.
+   */
+  private applyDeployment(body: any, span: ReadableSpan): DeploymentInfo {
+    const deployment = resolveDeployment(this.config, span.resource?.attributes);
+    if (deployment.environment) body.environment = deployment.environment;
+    if (deployment.version) body.version = deployment.version;
+    return deployment;
+  }
+
+  /**
+   * Create Langfuse events for the span events of a span.
+   *
+   * @param parentObservationId Observation the span was exported as, absent
+   *   when the span became the trace
+   */
+  private createEvents(span: ReadableSpan, parentObservationId?: string): void {
+    for (const event of this.spanEvents.convert(span, parentObservationId)) {
+      this.applyDeployment(event, span);
+      this.redactPayload(event, 'event', span);
+      this.send({ type: 'event-create', body: event }, span);
     }
   }
 
   /**
-   * Extract model name from Genkit path.
+   * Set level and status message of a failed observation, and remember the
+   * failure for its trace.
+   */
+  private markError(observation: any, span: ReadableSpan, metadata: ExtractedMetadata): void {
+    const error = extractSpanError(span, metadata.state);
+    if (!error) return;
+
+    observation.level = error.level;
+    observation.statusMessage = error.statusMessage;
+
+    const traceId = span.spanContext().traceId;
+    if (!this.failedTraces.has(traceId)) {
+      rememberForTrace(this.failedTraces, traceId, error.statusMessage);
+    }
+  }
+
+  /**
+   * Redact input, output, metadata and status message of a Langfuse payload
+   * in place and record how many values were masked.
+   */
+  private redactPayload(
+    payload: { input?: any; output?: any; metadata?: any; statusMessage?: any },
+    observationType: 'trace' | LangfuseObservationType,
+    span: ReadableSpan
+  ): void {
+    if (!this.redactor.enabled) return;
+
+    let maskedCount = 0;
+    for (const field of ['input', 'output', 'metadata', 'statusMessage'] as const) {
+      const result = this.redactor.redact(payload[field], {
+        field,
+        observationType,
+        spanName: span.name,
+        traceId: span.spanContext().traceId,
+      });
+      payload[field] = result.value;
+      maskedCount += result.maskedCount;
+    }
+
+    if (maskedCount > 0) {
+      payload.metadata = { ...payload.metadata, redactedValues: maskedCount };
+    }
+  }
+
+  /**
+   * Extract model or embedder name from Genkit path.
    */
   private extractModelFromPath(path?: string): string {
     if (!path) return 'unknown';
-    const match = path.match(/\/model\/([^\/]+)\/([^\/]+)/);
+    const match = path.match(/\/(?:model|embedder)\/([^\/]+)\/([^\/]+)/);
     return match ? match[2] : 'unknown';
   }
 
@@ -509,10 +1112,18 @@ export class LangfuseExporter implements SpanExporter {
    */
   private extractProviderFromPath(path?: string): string {
     if (!path) return 'unknown';
-    const match = path.match(/\/model\/([^\/]+)\//);
+    const match = path.match(/\/(?:model|embedder)\/([^\/]+)\//);
     return match ? match[1] : 'unknown';
   }
 
+  /**
+   * Provider of a model call, from the Genkit path or a `provider/model` name.
+   */
+  private providerOf(path: string | undefined, modelName: string): string {
+    const provider = this.extractProviderFromPath(path);
+    return provider === 'unknown' && modelName.includes('/') ? modelName.split('/')[0] : provider;
+  }
+
   /**
    * Safely parse JSON string.
    */
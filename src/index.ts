@@ -2,13 +2,19 @@
 import { genkitPlugin, type GenkitPlugin } from 'genkit/plugin';
 import { enableTelemetry } from 'genkit/tracing';
 import { LangfuseTelemetryProvider } from './telemetry-provider.js';
+import { PluginLogger } from './logger.js';
+import { resolveConfig } from './config.js';
 import type { LangfuseConfig } from './types.js';
 
 /**
  * Langfuse plugin for Genkit that enables observability and tracing.
  * 
+ * Options not passed explicitly are read from `LANGFUSE_*` environment
+ * variables, so `langfuse()` works without arguments when they are set.
+ * 
  * @param config Langfuse configuration options
  * @returns Genkit plugin configuration
+ * @throws LangfuseConfigError listing every invalid option
  * 
  * @example
  * ```typescript
@@ -27,20 +33,18 @@ import type { LangfuseConfig } from './types.js';
  * });
  * ```
  */
-export function langfuse(config: LangfuseConfig): GenkitPlugin {
+export function langfuse(config: Partial<LangfuseConfig> = {}): GenkitPlugin {
+  resolveConfig(config);
   return genkitPlugin('langfuse', async () => {
-    if (config.debug) {
-      console.log('🔧 [DEBUG] Initializing Langfuse plugin');
-    }
+    const logger = PluginLogger.fromConfig(config);
+    logger.debug('Initializing Langfuse plugin');
     
     const telemetryProvider = new LangfuseTelemetryProvider(config);
     
     // Enable telemetry through genkit's enableTelemetry function
     await enableTelemetry(telemetryProvider.getConfig());
     
-    if (config.debug) {
-      console.log('✅ [DEBUG] Langfuse plugin initialization complete');
-    }
+    logger.debug('Langfuse plugin initialization complete');
   });
 }
 
@@ -48,8 +52,8 @@ export function langfuse(config: LangfuseConfig): GenkitPlugin {
  * @deprecated Use `langfuse()` plugin instead
  * Legacy function for backward compatibility.
  */
-export async function enableLangfuseTelemetry(config: LangfuseConfig) {
-  console.warn('enableLangfuseTelemetry is deprecated. Use langfuse() plugin instead.');
+export async function enableLangfuseTelemetry(config: Partial<LangfuseConfig> = {}) {
+  PluginLogger.fromConfig(config).warn('enableLangfuseTelemetry is deprecated. Use langfuse() plugin instead.');
   const telemetryProvider = new LangfuseTelemetryProvider(config);
   const { enableTelemetry } = await import('genkit/tracing');
   return enableTelemetry(telemetryProvider.getConfig());
@@ -62,12 +66,128 @@ export async function enableLangfuseTelemetry(config: LangfuseConfig) {
  * @param config Langfuse configuration options
  * @returns LangfuseTelemetryProvider instance
  */
-export function createLangfuseTelemetryProvider(config: LangfuseConfig): LangfuseTelemetryProvider {
+export function createLangfuseTelemetryProvider(config: Partial<LangfuseConfig> = {}): LangfuseTelemetryProvider {
   return new LangfuseTelemetryProvider(config);
 }
 
 // Re-export types and utilities
-export type { LangfuseConfig, SpanData } from './types.js';
+export type {
+  CostContext,
+  CostDetails,
+  DatasetRunOptions,
+  DatasetRunResult,
+  EvalRunExportOptions,
+  EvalRunExportResult,
+  GenkitDatasetItem,
+  GenkitEvalMetric,
+  GenkitEvalResult,
+  GenkitEvalRun,
+  IngestionEvent,
+  IngestionEventError,
+  LangfuseLogger,
+  LangfuseConfig,
+  LangfuseDestination,
+  LangfuseObservationType,
+  LangfuseScore,
+  LangfuseTraceContext,
+  LangfusePromptOptions,
+  LangfusePromptReference,
+  LogFields,
+  LogLevel,
+  MediaOptions,
+  MediaSink,
+  MediaUpload,
+  ModelPrice,
+  PricingOptions,
+  RedactionContext,
+  RedactionDetector,
+  RedactionOptions,
+  RedactionRule,
+  RetrievalOptions,
+  RoutingRule,
+  ScoreDataType,
+  SpanData,
+  SpanEventOptions,
+  SpanFilterAction,
+  SpanFilterFunction,
+  SpanFilterOptions,
+  SpanFilterRule,
+  SpoolOptions,
+  TailSamplingOptions,
+  TailSamplingReason,
+  TagRule,
+  TokenUsage,
+  TruncationOptions,
+} from './types.js';
 export { LangfuseExporter } from './exporter.js';
+export { RoutingExporter } from './routing.js';
 export { SpanMetadataExtractor } from './metadata-extractor.js';
+export { SpanFilter } from './span-filter.js';
+export { TailSampler, type SampledSpan } from './tail-sampling.js';
+export { Redactor } from './redaction.js';
+export {
+  DEFAULT_PRICING_CATALOG,
+  ModelPricing,
+  PRICING_CATALOG_VERSION,
+  type GenerationCost,
+} from './pricing.js';
+export { ExportSpool } from './spool.js';
+export { LANGFUSE_OTLP_TRACES_PATH, OtlpBatch, OtlpTransport, toOtlpAttributes } from './otlp.js';
+export { LangfuseMediaSink, MediaProcessor } from './media.js';
+export { DEFAULT_OBSERVATION_TYPES, ObservationTypeMapper } from './observation-types.js';
+export {
+  formatRetrieval,
+  type FormattedRetrieval,
+  type RetrievalStats,
+  type RetrievedDocument,
+} from './retrieval.js';
+export { extractSpanError, type SpanError } from './status.js';
+export { SpanEventConverter } from './span-events.js';
+export {
+  resolveDeployment,
+  resolveTraceTags,
+  toLangfuseEnvironment,
+  type DeploymentInfo,
+} from './deployment.js';
+export { PayloadTruncator, truncateValue, type TruncationResult } from './truncation.js';
+export { LangfuseExportError } from './delivery.js';
+export { PluginLogger } from './logger.js';
+export {
+  DEFAULT_DESTINATION,
+  LangfuseConfigError,
+  LangfuseConfigSchema,
+  readEnvironmentConfig,
+  resolveConfig,
+  type ConfigIssue,
+} from './config.js';
+export {
+  LangfusePromptManager,
+  PROMPT_NAME_ATTRIBUTE,
+  PROMPT_VERSION_ATTRIBUTE,
+  getActivePromptReference,
+  toDotprompt,
+  withLangfusePrompt,
+  type DefineLangfusePromptOptions,
+} from './prompts.js';
+export { LangfuseDatasetRunner, type RunnableFlow } from './datasets.js';
+export { LangfuseEvalExporter } from './evaluation.js';
+export { getCurrentObservationId, getCurrentTraceId, score, type ScoreTarget } from './scores.js';
+export {
+  CHUNK_COUNT_ATTRIBUTE,
+  FIRST_CHUNK_TIME_ATTRIBUTE,
+  LAST_CHUNK_TIME_ATTRIBUTE,
+  recordChunk,
+  recordStreaming,
+  trackStreaming,
+} from './streaming.js';
+export {
+  SESSION_ID_ATTRIBUTE,
+  TRACE_METADATA_ATTRIBUTE,
+  TRACE_NAME_ATTRIBUTE,
+  TRACE_TAGS_ATTRIBUTE,
+  USER_ID_ATTRIBUTE,
+  getLangfuseContext,
+  withLangfuseContext,
+} from './trace-context.js';
+export { LangfuseSpanProcessor } from './span-processor.js';
 export { LangfuseTelemetryProvider } from './telemetry-provider.js';
\ No newline at end of file
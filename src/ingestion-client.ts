@@ -0,0 +1,91 @@
+import { Langfuse } from 'langfuse';
+import type { FlushedItem } from './delivery.js';
+import type { LangfuseObservationType } from './types.js';
+
+type LangfuseOptions = NonNullable<ConstructorParameters<typeof Langfuse>[0]>;
+type LangfuseFetchOptions = Parameters<Langfuse['fetch']>[1];
+type LangfuseFetchResponse = Awaited<ReturnType<Langfuse['fetch']>>;
+
+/** Path of the Langfuse ingestion API */
+const INGESTION_PATH = '/api/public/ingestion';
+
+/**
+ * Receives the envelopes of each ingestion request and Langfuse's answer.
+ *
+ * @param status HTTP status, `undefined` when the request got no response
+ * @param body Parsed response body
+ * @param error Error of a request that got no response
+ */
+export type IngestionListener = (
+  items: FlushedItem[],
+  status: number | undefined,
+  body?: unknown,
+  error?: unknown
+) => void;
+
+/**
+ * Langfuse client that reports what every ingestion request actually sent
+ * and how Langfuse answered. The SDK's `flush` event lists every envelope
+ * taken from the queue, including those it dropped or put back for a later
+ * request, so it cannot tell which events were delivered.
+ *
+ * The client never samples: the SDK drops events outside its sample before
+ * queueing them, so they would never get a result. The exporter samples
+ * traces before tracking them instead.
+ */
+export class IngestionClient extends Langfuse {
+  private readonly onIngestion: IngestionListener;
+
+  constructor(options: Omit<LangfuseOptions, 'sampleRate'>, onIngestion: IngestionListener) {
+    super(options);
+    this.onIngestion = onIngestion;
+    // Also ignore LANGFUSE_SAMPLE_RATE, which the SDK reads by itself
+    (this as any).sampleRate = undefined;
+  }
+
+  /**
+   * Enqueue an observation of a type the client has no method for, e.g.
+   * `tool-create`. Only sent when typed observations are enabled.
+   */
+  observation(type: `${LangfuseObservationType}-create`, body: Record<string, any>): void {
+    this.enqueue(type as Parameters<IngestionClient['enqueue']>[0], body);
+  }
+
+  override async fetch(url: string, options: LangfuseFetchOptions): Promise<LangfuseFetchResponse> {
+    if (!url.endsWith(INGESTION_PATH)) {
+      return super.fetch(url, options);
+    }
+
+    const items = parseBatch(options.body);
+    let response: LangfuseFetchResponse;
+    try {
+      response = await super.fetch(url, options);
+    } catch (error) {
+      this.onIngestion(items, undefined, undefined, error);
+      throw error;
+    }
+
+    // Read the body once and hand the SDK a response it can read again
+    const text = await response.text();
+    this.onIngestion(items, response.status, parseJSON(text));
+    return {
+      status: response.status,
+      text: async () => text,
+      json: async () => JSON.parse(text),
+      arrayBuffer: async () => new TextEncoder().encode(text).buffer as ArrayBuffer,
+    };
+  }
+}
+
+function parseBatch(body: LangfuseFetchOptions['body']): FlushedItem[] {
+  const batch = parseJSON(body ? body.toString() : '')?.batch;
+  return Array.isArray(batch) ? batch : [];
+}
+
+function parseJSON(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,219 @@
+import type { LangfuseLogger, LogFields, LogLevel } from './types.js';
+
+const LEVELS: LogLevel[] = ['error', 'warn', 'info', 'debug', 'trace'];
+
+const CONSOLE_PREFIXES: Record<LogLevel, string> = {
+  error: '🚨 [ERROR]',
+  warn: '⚠️  [WARNING]',
+  info: 'ℹ️  [INFO]',
+  debug: '🔧 [DEBUG]',
+  trace: '🔍 [TRACE]',
+};
+
+/** Field names (lowercased, without `-` and `_`) whose values are never logged */
+const SECRET_FIELD_PATTERN = /secret|passw(or)?d|apikey|authorization|cookie|credential|^token$|(access|refresh|auth|id|bearer)token/;
+
+/** Langfuse secret keys embedded in strings */
+const SECRET_VALUE_PATTERN = /sk-lf-[A-Za-z0-9-]+/g;
+
+const MAX_DEPTH = 8;
+
+/**
+ * Options for the plugin logger.
+ */
+export interface PluginLoggerOptions {
+  /** Destination logger; defaults to the console */
+  logger?: LangfuseLogger;
+
+  /** Most verbose level to emit */
+  level?: LogLevel;
+}
+
+/**
+ * Leveled, structured logger used by all plugin components.
+ *
+ * Writes to the console by default, or to a pino or winston logger. Fields
+ * are serialized defensively: secrets are masked, errors are flattened and
+ * circular references are cut.
+ */
+export class PluginLogger {
+  private readonly target?: LangfuseLogger;
+  private readonly level: LogLevel;
+  private readonly bindings: LogFields;
+
+  constructor(options: PluginLoggerOptions = {}, bindings: LogFields = {}) {
+    this.target = options.logger;
+    // A custom logger applies its own level unless one is configured here
+    this.level = options.level || (options.logger ? 'trace' : 'warn');
+    this.bindings = bindings;
+  }
+
+  /**
+   * Create the logger for a plugin configuration.
+   */
+  static fromConfig(config: { logger?: LangfuseLogger; logLevel?: LogLevel; debug?: boolean }): PluginLogger {
+    return new PluginLogger({
+      logger: config.logger,
+      level: config.logLevel || (config.debug ? 'debug' : undefined),
+    });
+  }
+
+  /**
+   * Create a logger that adds the given fields to every entry.
+   */
+  child(bindings: LogFields): PluginLogger {
+    return new PluginLogger(
+      { logger: this.target, level: this.level },
+      { ...this.bindings, ...bindings }
+    );
+  }
+
+  /**
+   * Whether entries of the given level are emitted. Use this to skip
+   * building expensive fields.
+   */
+  isEnabled(level: LogLevel): boolean {
+    if (LEVELS.indexOf(level) > LEVELS.indexOf(this.level)) {
+      return false;
+    }
+    if (this.target?.isLevelEnabled) {
+      return this.target.isLevelEnabled(this.targetLevel(level));
+    }
+    return true;
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  trace(message: string, fields?: LogFields): void {
+    this.write('trace', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (!this.isEnabled(level)) return;
+
+    const safeMessage = message.replace(SECRET_VALUE_PATTERN, '[REDACTED]');
+    const safeFields = serializeFields({ ...this.bindings, ...fields });
+
+    try {
+      if (!this.target) {
+        writeToConsole(level, safeMessage, safeFields);
+      } else if (isWinstonLogger(this.target)) {
+        this.target.log(this.targetLevel(level), safeMessage, safeFields);
+      } else {
+        // pino calling convention: merge object first, message second
+        const method = this.target[level] || this.target.debug;
+        method.call(this.target, safeFields, safeMessage);
+      }
+    } catch {
+      // Logging must never break the export pipeline
+    }
+  }
+
+  /**
+   * Winston's default levels have no `trace`; its most verbose level is `silly`.
+   */
+  private targetLevel(level: LogLevel): string {
+    return level === 'trace' && this.target && isWinstonLogger(this.target) ? 'silly' : level;
+  }
+}
+
+function isWinstonLogger(
+  logger: LangfuseLogger
+): logger is LangfuseLogger & { log: (level: string, message: string, meta: LogFields) => void } {
+  return typeof logger.log === 'function' && 'transports' in logger;
+}
+
+function writeToConsole(level: LogLevel, message: string, fields: LogFields): void {
+  const args: unknown[] = [`${CONSOLE_PREFIXES[level]} ${message}`];
+  if (Object.keys(fields).length > 0) {
+    args.push(fields);
+  }
+
+  if (level === 'error') {
+    console.error(...args);
+  } else if (level === 'warn') {
+    console.warn(...args);
+  } else {
+    console.log(...args);
+  }
+}
+
+/**
+ * Copy log fields into plain data with secrets masked.
+ */
+export function serializeFields(fields: LogFields): LogFields {
+  return serializeValue(fields, 0, new WeakSet()) as LogFields;
+}
+
+function isSecretField(key: string): boolean {
+  return SECRET_FIELD_PATTERN.test(key.toLowerCase().replace(/[-_]/g, ''));
+}
+
+function serializeValue(value: unknown, depth: number, seen: WeakSet<object>): unknown {
+  if (typeof value === 'string') {
+    return value.replace(SECRET_VALUE_PATTERN, '[REDACTED]');
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (typeof value === 'function' || typeof value === 'symbol') {
+    return undefined;
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+  seen.add(value);
+
+  if (value instanceof Error) {
+    const error: LogFields = {
+      name: value.name,
+      message: serializeValue(value.message, depth + 1, seen),
+      stack: serializeValue(value.stack, depth + 1, seen),
+    };
+    const status = (value as any).response?.status;
+    if (status !== undefined) {
+      error.status = status;
+    }
+    if ((value as any).cause !== undefined) {
+      error.cause = serializeValue((value as any).cause, depth + 1, seen);
+    }
+    seen.delete(value);
+    return error;
+  }
+
+  let result: unknown;
+  if (Array.isArray(value)) {
+    result = value.map(item => serializeValue(item, depth + 1, seen));
+  } else {
+    const copy: LogFields = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = isSecretField(key) ? '[REDACTED]' : serializeValue(item, depth + 1, seen);
+    }
+    result = copy;
+  }
+  seen.delete(value);
+  return result;
+}
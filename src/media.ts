@@ -0,0 +1,211 @@
+import { createHash } from 'crypto';
+import { PluginLogger } from './logger.js';
+import type { IngestionEvent, LangfuseConfig, MediaOptions, MediaSink, MediaUpload } from './types.js';
+
+const DATA_URL_PATTERN = /^data:([^;,]+)(?:;[^;,]+)*;base64,/;
+
+const MAX_DEPTH = 20;
+
+/** Content types accepted by the Langfuse media API */
+const LANGFUSE_CONTENT_TYPES = new Set([
+  'image/png', 'image/jpeg', 'image/jpg', 'image/webp', 'image/gif', 'image/svg+xml', 'image/tiff', 'image/bmp',
+  'audio/mpeg', 'audio/mp3', 'audio/wav', 'audio/ogg', 'audio/oga', 'audio/aac', 'audio/mp4', 'audio/flac',
+  'video/mp4', 'video/webm',
+  'text/plain', 'text/html', 'text/css', 'text/csv',
+  'application/pdf', 'application/msword', 'application/vnd.ms-excel', 'application/zip',
+  'application/json', 'application/xml', 'application/octet-stream',
+]);
+
+type MediaField = MediaUpload['field'];
+
+/**
+ * Uploads media through the Langfuse media API and references it with
+ * Langfuse media tokens, which the Langfuse UI renders inline. Each request
+ * is aborted after `exportTimeoutMillis`, failing the upload.
+ */
+export class LangfuseMediaSink implements MediaSink {
+  private readonly baseUrl: string;
+  private readonly authorization: string;
+  private readonly timeoutMillis: number;
+
+  constructor(config: Pick<LangfuseConfig, 'baseUrl' | 'publicKey' | 'secretKey' | 'exportTimeoutMillis'>) {
+    this.baseUrl = (config.baseUrl || 'https://cloud.langfuse.com').replace(/\/+$/, '');
+    this.authorization = 'Basic ' + Buffer.from(`${config.publicKey}:${config.secretKey}`).toString('base64');
+    this.timeoutMillis = config.exportTimeoutMillis ?? 30000;
+  }
+
+  async upload(media: MediaUpload): Promise<string> {
+    if (!LANGFUSE_CONTENT_TYPES.has(media.contentType)) {
+      throw new Error(`Langfuse does not support media of type ${media.contentType}`);
+    }
+
+    const response = await this.fetch(`${this.baseUrl}/api/public/media`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: this.authorization },
+      body: JSON.stringify({
+        traceId: media.traceId,
+        observationId: media.observationId,
+        contentType: media.contentType,
+        contentLength: media.content.length,
+        sha256Hash: media.sha256Hash,
+        field: media.field,
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to request a media upload URL: ${response.status} ${await response.text()}`);
+    }
+    const { uploadUrl, mediaId } = await response.json() as { uploadUrl?: string | null; mediaId: string };
+
+    // No upload URL means Langfuse already has this content
+    if (uploadUrl) {
+      const startTime = Date.now();
+      const upload = await this.fetch(uploadUrl, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': media.contentType,
+          'x-amz-checksum-sha256': media.sha256Hash,
+          'x-ms-blob-type': 'BlockBlob',
+        },
+        body: media.content,
+      });
+      await this.fetch(`${this.baseUrl}/api/public/media/${mediaId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', Authorization: this.authorization },
+        body: JSON.stringify({
+          uploadedAt: new Date().toISOString(),
+          uploadHttpStatus: upload.status,
+          uploadHttpError: upload.ok ? undefined : await upload.text(),
+          uploadTimeMs: Date.now() - startTime,
+        }),
+      });
+      if (!upload.ok) {
+        throw new Error(`Failed to upload media: ${upload.status}`);
+      }
+    }
+
+    return `@@@langfuseMedia:type=${media.contentType}|id=${mediaId}|source=base64_data_uri@@@`;
+  }
+
+  private async fetch(url: string, init: RequestInit): Promise<Response> {
+    try {
+      return await fetch(url, { ...init, signal: AbortSignal.timeout(this.timeoutMillis) });
+    } catch (error) {
+      if ((error as Error | undefined)?.name === 'TimeoutError') {
+        throw new Error(`Media request to ${new URL(url).origin} timed out after ${this.timeoutMillis}ms`);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Replaces base64 data URLs in event payloads with references to uploaded
+ * media, or with placeholders.
+ */
+export class MediaProcessor {
+  private readonly options: Required<Omit<MediaOptions, 'sink'>>;
+  private readonly sink: MediaSink;
+  private readonly logger: PluginLogger;
+
+  /**
+   * @param sink Sink used when `options.sink` is not set
+   */
+  constructor(options: MediaOptions, sink: MediaSink, logger: PluginLogger = new PluginLogger()) {
+    this.options = {
+      mode: options.mode || 'upload',
+      maxBytes: options.maxBytes ?? 20 * 1024 * 1024,
+    };
+    this.sink = options.sink || sink;
+    this.logger = logger;
+  }
+
+  /**
+   * Whether the event's payloads contain inline media to replace.
+   */
+  containsMedia(event: IngestionEvent): boolean {
+    return (['input', 'output', 'metadata'] as const).some(field => hasDataUrl(event.body[field], 0));
+  }
+
+  /**
+   * Replace inline media in the event's payloads. Media that cannot be
+   * uploaded is replaced with a placeholder.
+   *
+   * @returns Number of media items replaced
+   */
+  async process(event: IngestionEvent): Promise<number> {
+    const body = event.body;
+    const traceId = event.type === 'trace-create' ? body.id : body.traceId;
+    const observationId = event.type === 'trace-create' ? undefined : body.id;
+    const uploads = new Map<string, Promise<string>>();
+    let replaced = 0;
+
+    const replace = async (value: unknown, field: MediaField, depth: number): Promise<unknown> => {
+      if (typeof value === 'string') {
+        const match = DATA_URL_PATTERN.exec(value);
+        if (!match) return value;
+        const replacement = await this.replaceDataUrl(value, match, { traceId, observationId, field }, uploads);
+        if (replacement !== value) replaced++;
+        return replacement;
+      }
+      if (!value || typeof value !== 'object' || depth >= MAX_DEPTH) {
+        return value;
+      }
+      if (Array.isArray(value)) {
+        return Promise.all(value.map(item => replace(item, field, depth + 1)));
+      }
+      const entries = await Promise.all(
+        Object.entries(value).map(async ([key, item]) => [key, await replace(item, field, depth + 1)] as const)
+      );
+      return Object.fromEntries(entries);
+    };
+
+    for (const field of ['input', 'output', 'metadata'] as const) {
+      if (body[field] !== undefined) {
+        body[field] = await replace(body[field], field, 0);
+      }
+    }
+    return replaced;
+  }
+
+  private async replaceDataUrl(
+    dataUrl: string,
+    match: RegExpExecArray,
+    target: { traceId: string; observationId?: string; field: MediaField },
+    uploads: Map<string, Promise<string>>
+  ): Promise<string> {
+    const contentType = match[1].toLowerCase();
+    const content = Buffer.from(dataUrl.slice(match[0].length), 'base64');
+
+    if (this.options.mode === 'strip' || content.length > this.options.maxBytes) {
+      return placeholder(contentType, content.length);
+    }
+
+    const sha256Hash = createHash('sha256').update(content).digest('base64');
+    const key = `${target.field}:${sha256Hash}`;
+    if (!uploads.has(key)) {
+      uploads.set(key, this.sink.upload({ contentType, content, sha256Hash, ...target }).catch(error => {
+        this.logger.warn(`Failed to upload ${contentType} media, removing it from the ${target.field}`, {
+          traceId: target.traceId,
+          observationId: target.observationId,
+          error,
+        });
+        return placeholder(contentType, content.length);
+      }));
+    }
+    return uploads.get(key)!;
+  }
+}
+
+function placeholder(contentType: string, bytes: number): string {
+  return `[${contentType} media removed, ${bytes} bytes]`;
+}
+
+function hasDataUrl(value: unknown, depth: number): boolean {
+  if (typeof value === 'string') {
+    return DATA_URL_PATTERN.test(value);
+  }
+  if (!value || typeof value !== 'object' || depth >= MAX_DEPTH) {
+    return false;
+  }
+  return Object.values(value).some(item => hasDataUrl(item, depth + 1));
+}
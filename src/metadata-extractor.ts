@@ -1,4 +1,8 @@
 import type { ReadableSpan } from '@opentelemetry/sdk-trace-base';
+import { PROMPT_NAME_ATTRIBUTE, PROMPT_VERSION_ATTRIBUTE } from './prompts.js';
+import { readTraceContext } from './trace-context.js';
+import type { LangfuseTraceContext, TailSamplingReason } from './types.js';
+import { CHUNK_COUNT_ATTRIBUTE, FIRST_CHUNK_TIME_ATTRIBUTE, LAST_CHUNK_TIME_ATTRIBUTE } from './streaming.js';
 
 /**
  * Extracts structured metadata from Genkit OpenTelemetry spans.
@@ -9,23 +13,37 @@ export class SpanMetadataExtractor {
    */
   static extractMetadata(span: ReadableSpan): ExtractedMetadata {
     const attributes = span.attributes;
+    const traceContext = readTraceContext(attributes);
     
     return {
       // Core Genkit attributes
       name: attributes['genkit:name'] as string,
       path: attributes['genkit:path'] as string,
       spanType: attributes['genkit:type'] as string,
+      subtype: attributes['genkit:metadata:subtype'] as string,
       input: attributes['genkit:input'] as string,
       output: attributes['genkit:output'] as string,
       state: attributes['genkit:state'] as string,
       isRoot: attributes['genkit:isRoot'] === 'true' || attributes['genkit:isRoot'] === true,
       
-      // Session tracking (available in chat flows)
-      sessionId: attributes['genkit:sessionId'] as string,
+      // Session tracking (available in chat flows or set with withLangfuseContext)
+      sessionId: traceContext?.sessionId ?? attributes['genkit:sessionId'] as string,
       threadName: attributes['genkit:threadName'] as string,
       
       // User context (if available)
-      userId: attributes['genkit:userId'] as string,
+      userId: traceContext?.userId ?? attributes['genkit:userId'] as string,
+      
+      // Context of the enclosing withLangfuseContext call
+      traceContext,
+      
+      // Langfuse prompt the generation was rendered from
+      promptName: attributes[PROMPT_NAME_ATTRIBUTE] as string,
+      promptVersion: attributes[PROMPT_VERSION_ATTRIBUTE] !== undefined
+        ? Number(attributes[PROMPT_VERSION_ATTRIBUTE])
+        : undefined,
+      
+      // Streaming progress recorded by recordChunk()
+      streaming: this.extractStreaming(attributes),
       
       // Additional metadata
       metadata: this.extractCustomMetadata(attributes),
@@ -48,6 +66,30 @@ export class SpanMetadataExtractor {
     return metadata;
   }
 
+  /**
+   * Extract streamed chunk timings, if the span streamed.
+   */
+  private static extractStreaming(attributes: Record<string, any>): StreamingMetadata | undefined {
+    const firstChunkTime = attributes[FIRST_CHUNK_TIME_ATTRIBUTE];
+    if (typeof firstChunkTime !== 'number') return undefined;
+    
+    return {
+      firstChunkTime,
+      lastChunkTime: Number(attributes[LAST_CHUNK_TIME_ATTRIBUTE] ?? firstChunkTime),
+      chunkCount: Number(attributes[CHUNK_COUNT_ATTRIBUTE] ?? 1),
+    };
+  }
+
+  /**
+   * Extract the name of the outermost flow from a Genkit path.
+   * Supports both `/{myFlow,t:flow}/...` and `/flow/myFlow/...` paths.
+   */
+  static extractFlowName(path?: string): string | undefined {
+    if (!path) return undefined;
+    const match = path.match(/\{([^,}]+),t:flow[,}]/) || path.match(/\/flow\/([^\/]+)/);
+    return match ? match[1] : undefined;
+  }
+
   /**
    * Check if a span represents an LLM/model call.
    */
@@ -84,6 +126,12 @@ export class SpanMetadataExtractor {
           outputTokens: parsed.usage.outputTokens || 0,
           totalTokens: parsed.usage.totalTokens || 
             (parsed.usage.inputTokens || 0) + (parsed.usage.outputTokens || 0),
+          ...(parsed.usage.cachedContentTokens !== undefined
+            ? { cachedInputTokens: parsed.usage.cachedContentTokens }
+            : {}),
+          ...(parsed.usage.thoughtsTokens !== undefined
+            ? { thinkingTokens: parsed.usage.thoughtsTokens }
+            : {}),
         };
       }
     } catch (error) {
@@ -115,6 +163,7 @@ export interface ExtractedMetadata {
   name?: string;
   path?: string;
   spanType?: string;
+  subtype?: string;
   input?: string;
   output?: string;
   state?: string;
@@ -122,11 +171,29 @@ export interface ExtractedMetadata {
   sessionId?: string;
   threadName?: string;
   userId?: string;
+  traceContext?: LangfuseTraceContext;
+  promptName?: string;
+  promptVersion?: number;
+  streaming?: StreamingMetadata;
+  /** Why tail sampling kept the trace, set on root spans by the sampler */
+  sampling?: TailSamplingReason;
   metadata?: Record<string, any>;
 }
 
+export interface StreamingMetadata {
+  /** Epoch milliseconds of the first chunk */
+  firstChunkTime: number;
+  
+  /** Epoch milliseconds of the last chunk */
+  lastChunkTime: number;
+  
+  chunkCount: number;
+}
+
 export interface TokenUsage {
   inputTokens: number;
   outputTokens: number;
   totalTokens: number;
+  cachedInputTokens?: number;
+  thinkingTokens?: number;
 }
\ No newline at end of file
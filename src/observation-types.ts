@@ -0,0 +1,104 @@
+import type { ReadableSpan } from '@opentelemetry/sdk-trace-base';
+import type { ExtractedMetadata } from './metadata-extractor.js';
+import { isTraceRoot } from './span-filter.js';
+import type { LangfuseObservationType } from './types.js';
+
+/**
+ * Langfuse observation types of Genkit action types. Nested flows and
+ * `ai.run()` steps are chains; other actions without an entry are spans.
+ */
+export const DEFAULT_OBSERVATION_TYPES: Readonly<Record<string, LangfuseObservationType>> = {
+  tool: 'tool',
+  retriever: 'retriever',
+  indexer: 'retriever',
+  embedder: 'embedding',
+  evaluator: 'evaluator',
+  flow: 'chain',
+  flowStep: 'chain',
+};
+
+/**
+ * Maps Genkit actions to Langfuse observation types. Types other than
+ * spans and generations are opt-in, since they need a Langfuse version
+ * with observation type support.
+ */
+export class ObservationTypeMapper {
+  private readonly overrides: Record<string, LangfuseObservationType>;
+
+  /** Whether actions get typed observations such as tools and chains */
+  readonly enabled: boolean;
+
+  /**
+   * @param options `true` for the built-in mapping, an object to override
+   *   it, `false` to export every action as a span
+   */
+  constructor(options: Record<string, LangfuseObservationType> | boolean = false) {
+    this.enabled = options !== false;
+    this.overrides = typeof options === 'object' ? options : {};
+  }
+
+  /**
+   * Observation type configured for the action, if any. Keys are matched
+   * by action name, then action subtype, then Genkit span type.
+   */
+  override(spanName: string, metadata: ExtractedMetadata): LangfuseObservationType | undefined {
+    for (const key of [metadata.name, spanName, metadata.subtype, metadata.spanType]) {
+      if (key && Object.prototype.hasOwnProperty.call(this.overrides, key)) {
+        return this.overrides[key];
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Langfuse type of a Genkit span: model calls are generations, embedder
+   * calls embeddings, the outermost span is the trace and other actions
+   * get their mapped type.
+   */
+  classify(span: ReadableSpan, metadata: ExtractedMetadata): 'trace' | LangfuseObservationType {
+    const override = this.override(span.name, metadata);
+    const path = metadata.path;
+    const name = span.name;
+
+    // Model/LLM calls are generations
+    if (override === 'generation' ||
+        (!override && (
+          metadata.spanType === 'model' ||
+          metadata.subtype === 'model' ||
+          path?.includes('/model/') ||
+          name.includes('generate') ||
+          name.includes('model')))) {
+      return 'generation';
+    }
+
+    // Embedder calls get usage and cost like generations
+    if (override === 'embedding' ||
+        (!override && (
+          metadata.spanType === 'embedder' ||
+          metadata.subtype === 'embedder' ||
+          path?.includes('/embedder/')))) {
+      return 'embedding';
+    }
+
+    // Only the outermost span is the trace; flows nested in it are spans
+    if (isTraceRoot(span, metadata)) {
+      return 'trace';
+    }
+
+    // Tools, retrievers, embedders and other actions get their own types
+    return this.resolve(span.name, metadata);
+  }
+
+  /**
+   * Observation type of an action that is neither a model call nor the
+   * root of its trace.
+   */
+  resolve(spanName: string, metadata: ExtractedMetadata): LangfuseObservationType {
+    const override = this.override(spanName, metadata);
+    if (override) return override;
+    if (!this.enabled) return 'span';
+    return (metadata.subtype && DEFAULT_OBSERVATION_TYPES[metadata.subtype]) ||
+      (metadata.spanType && DEFAULT_OBSERVATION_TYPES[metadata.spanType]) ||
+      'span';
+  }
+}
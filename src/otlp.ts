@@ -0,0 +1,230 @@
+import type { Attributes, AttributeValue } from '@opentelemetry/api';
+import { ExportResultCode, millisToHrTime, type ExportResult } from '@opentelemetry/core';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import type { ReadableSpan, SpanExporter, TimedEvent } from '@opentelemetry/sdk-trace-base';
+import type { IngestionEvent, LangfuseConfig } from './types.js';
+
+/** Path of Langfuse's OTLP/HTTP trace endpoint */
+export const LANGFUSE_OTLP_TRACES_PATH = '/api/public/otel/v1/traces';
+
+/**
+ * Translated attributes and events of a span waiting to be sent.
+ */
+interface PendingSpan {
+  span: ReadableSpan;
+  attributes: Attributes;
+  events: TimedEvent[];
+  isTrace: boolean;
+  parentSpanId?: string;
+}
+
+/**
+ * Langfuse OpenTelemetry attributes of a trace or observation payload.
+ *
+ * Traces map to `langfuse.trace.*`, observations to `langfuse.observation.*`
+ * plus `gen_ai.*` model and usage attributes, following Langfuse's
+ * semantic conventions for OTLP ingestion.
+ */
+export function toOtlpAttributes(event: IngestionEvent): Attributes {
+  const body = event.body as Record<string, any>;
+  const attributes: Attributes = {};
+  const set = (key: string, value: unknown) => {
+    const converted = toAttributeValue(value);
+    if (converted !== undefined) attributes[key] = converted;
+  };
+
+  set('langfuse.environment', body.environment);
+  set('langfuse.version', body.version);
+
+  if (event.type === 'trace-create') {
+    set('langfuse.trace.name', body.name);
+    set('langfuse.trace.input', json(body.input));
+    set('langfuse.trace.output', json(body.output));
+    set('langfuse.trace.metadata', json(body.metadata));
+    set('langfuse.trace.tags', body.tags);
+    set('langfuse.user.id', body.userId);
+    set('langfuse.session.id', body.sessionId);
+    set('langfuse.release', body.release);
+    return attributes;
+  }
+
+  set('langfuse.observation.type', event.type.replace(/-create$/, ''));
+  set('langfuse.observation.input', json(body.input));
+  set('langfuse.observation.output', json(body.output));
+  set('langfuse.observation.metadata', json(body.metadata));
+  set('langfuse.observation.level', body.level);
+  set('langfuse.observation.status_message', body.statusMessage);
+  set('langfuse.observation.prompt.name', body.promptName);
+  set('langfuse.observation.prompt.version', body.promptVersion);
+  if (body.completionStartTime instanceof Date) {
+    set('langfuse.observation.completion_start_time', body.completionStartTime.toISOString());
+  }
+
+  set('langfuse.observation.model.name', body.model);
+  set('gen_ai.request.model', body.model);
+  set('langfuse.observation.model.parameters', json(body.modelParameters));
+
+  const usage = body.usageDetails || body.usage;
+  set('langfuse.observation.usage_details', json(usage));
+  set('gen_ai.usage.input_tokens', usage?.input);
+  set('gen_ai.usage.output_tokens', usage?.output);
+  set('gen_ai.usage.total_tokens', usage?.total);
+  set('langfuse.observation.cost_details', json(body.costDetails));
+  set('gen_ai.usage.cost', body.totalCost ?? body.costDetails?.total);
+  return attributes;
+}
+
+/**
+ * Spans of one export, with the attributes and events translated from the
+ * Langfuse payloads created for them.
+ */
+export class OtlpBatch {
+  private readonly pending = new Map<string, PendingSpan>();
+
+  /**
+   * Attach a trace, observation or event payload to the span it was created from.
+   *
+   * @param parentSpanId Span the observation is exported under
+   */
+  add(event: IngestionEvent, span: ReadableSpan, parentSpanId?: string): void {
+    const spanId = span.spanContext().spanId;
+    let pending = this.pending.get(spanId);
+    if (!pending) {
+      pending = { span, attributes: {}, events: [], isTrace: false };
+      this.pending.set(spanId, pending);
+    }
+
+    const body = event.body as Record<string, any>;
+    switch (event.type) {
+      case 'event-create':
+        pending.events.push({
+          name: body.name,
+          time: millisToHrTime(new Date(body.startTime).getTime()),
+          attributes: toOtlpAttributes(event),
+        });
+        break;
+      case 'trace-create':
+        pending.isTrace = true;
+        Object.assign(pending.attributes, toOtlpAttributes(event));
+        break;
+      default:
+        pending.parentSpanId = parentSpanId;
+        Object.assign(pending.attributes, toOtlpAttributes(event));
+        break;
+    }
+  }
+
+  /**
+   * Spans to send, in the order they were first added.
+   */
+  toSpans(): ReadableSpan[] {
+    return [...this.pending.values()].map(toSpan);
+  }
+}
+
+/**
+ * Sends Langfuse payloads as OpenTelemetry spans to Langfuse's OTLP endpoint.
+ *
+ * Each payload is attached to the span it was created from: the trace and
+ * observation fields become span attributes, and Langfuse events become
+ * span events. Only these attributes are sent, so redaction and truncation
+ * apply exactly as with the ingestion API. Every export collects its spans
+ * in its own batch, so concurrent exports never send or report each
+ * other's spans.
+ */
+export class OtlpTransport {
+  private readonly exporter: SpanExporter;
+
+  /** Spans created outside an export, e.g. released on flush or shutdown */
+  private unbatched = new OtlpBatch();
+
+  /**
+   * @param exporter Span exporter to send with (default: OTLP/HTTP to `baseUrl`)
+   */
+  constructor(config: LangfuseConfig, exporter?: SpanExporter) {
+    this.exporter = exporter || new OTLPTraceExporter({
+      url: `${(config.baseUrl || 'https://cloud.langfuse.com').replace(/\/+$/, '')}${LANGFUSE_OTLP_TRACES_PATH}`,
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${config.publicKey}:${config.secretKey}`).toString('base64')}`,
+      },
+      timeoutMillis: config.exportTimeoutMillis,
+    });
+  }
+
+  /**
+   * Attach a payload to its span in the export's batch, or with the spans
+   * created outside an export.
+   */
+  add(event: IngestionEvent, span: ReadableSpan, parentSpanId?: string, batch?: OtlpBatch): void {
+    (batch || this.unbatched).add(event, span, parentSpanId);
+  }
+
+  /**
+   * Send the spans of an export's batch, or the spans created outside an
+   * export.
+   */
+  flush(batch?: OtlpBatch): Promise<ExportResult> {
+    if (!batch) {
+      batch = this.unbatched;
+      this.unbatched = new OtlpBatch();
+    }
+    const spans = batch.toSpans();
+    if (spans.length === 0) {
+      return Promise.resolve({ code: ExportResultCode.SUCCESS });
+    }
+    return new Promise(resolve => this.exporter.export(spans, resolve));
+  }
+
+  async forceFlush(): Promise<void> {
+    await this.flush();
+    await this.exporter.forceFlush?.();
+  }
+
+  async shutdown(): Promise<void> {
+    await this.flush();
+    await this.exporter.shutdown();
+  }
+}
+
+/**
+ * Copy of a span with the translated attributes and events. Trace roots are
+ * sent without a parent, observations with the parent they were exported
+ * under.
+ */
+function toSpan(pending: PendingSpan): ReadableSpan {
+  const { span } = pending;
+  return {
+    name: span.name,
+    kind: span.kind,
+    spanContext: () => span.spanContext(),
+    parentSpanId: pending.isTrace ? undefined : pending.parentSpanId,
+    startTime: span.startTime,
+    endTime: span.endTime,
+    status: span.status,
+    attributes: pending.attributes,
+    links: span.links,
+    events: pending.events,
+    duration: span.duration,
+    ended: true,
+    resource: span.resource,
+    instrumentationLibrary: span.instrumentationLibrary,
+    droppedAttributesCount: 0,
+    droppedEventsCount: 0,
+    droppedLinksCount: 0,
+  };
+}
+
+function json(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function toAttributeValue(value: unknown): AttributeValue | undefined {
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+    return value as string[];
+  }
+  return undefined;
+}
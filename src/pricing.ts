@@ -0,0 +1,330 @@
+import type {
+  CostDetails,
+  LangfuseConfig,
+  ModelPrice,
+  PricingOptions,
+  TokenUsage,
+} from './types.js';
+
+/**
+ * Version of the built-in price catalog. Bump whenever prices change.
+ */
+export const PRICING_CATALOG_VERSION = '2025-10-15';
+
+/**
+ * Catalog entry for a model family.
+ */
+export interface PricingCatalogEntry {
+  /** Genkit providers (plugin names) serving the model */
+  providers: string[];
+
+  /** Model name or prefix, e.g. `gemini-2.5-flash` */
+  model: string;
+
+  /** Prices ordered by `effectiveFrom` */
+  prices: ModelPrice[];
+}
+
+/**
+ * Built-in prices in USD per million tokens, for standard (non-batch) usage
+ * and the lowest context tier.
+ */
+export const DEFAULT_PRICING_CATALOG: PricingCatalogEntry[] = [
+  // Google Gemini
+  { providers: ['googleai', 'vertexai'], model: 'gemini-2.5-pro', prices: [
+    { input: 1.25, output: 10, cachedInput: 0.31 },
+  ] },
+  { providers: ['googleai', 'vertexai'], model: 'gemini-2.5-flash', prices: [
+    { input: 0.15, output: 0.6, thinking: 3.5 },
+    { input: 0.3, output: 2.5, cachedInput: 0.075, effectiveFrom: '2025-06-17' },
+  ] },
+  { providers: ['googleai', 'vertexai'], model: 'gemini-2.5-flash-lite', prices: [
+    { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  ] },
+  { providers: ['googleai', 'vertexai'], model: 'gemini-2.0-flash', prices: [
+    { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  ] },
+  { providers: ['googleai', 'vertexai'], model: 'gemini-2.0-flash-lite', prices: [
+    { input: 0.075, output: 0.3 },
+  ] },
+  { providers: ['googleai', 'vertexai'], model: 'gemini-1.5-pro', prices: [
+    { input: 1.25, output: 5, cachedInput: 0.3125 },
+  ] },
+  { providers: ['googleai', 'vertexai'], model: 'gemini-1.5-flash', prices: [
+    { input: 0.075, output: 0.3, cachedInput: 0.01875 },
+  ] },
+  { providers: ['googleai', 'vertexai'], model: 'gemini-1.5-flash-8b', prices: [
+    { input: 0.0375, output: 0.15, cachedInput: 0.01 },
+  ] },
+
+  // OpenAI
+  { providers: ['openai'], model: 'gpt-5', prices: [
+    { input: 1.25, output: 10, cachedInput: 0.125 },
+  ] },
+  { providers: ['openai'], model: 'gpt-5-mini', prices: [
+    { input: 0.25, output: 2, cachedInput: 0.025 },
+  ] },
+  { providers: ['openai'], model: 'gpt-5-nano', prices: [
+    { input: 0.05, output: 0.4, cachedInput: 0.005 },
+  ] },
+  { providers: ['openai'], model: 'gpt-4.1', prices: [
+    { input: 2, output: 8, cachedInput: 0.5 },
+  ] },
+  { providers: ['openai'], model: 'gpt-4.1-mini', prices: [
+    { input: 0.4, output: 1.6, cachedInput: 0.1 },
+  ] },
+  { providers: ['openai'], model: 'gpt-4.1-nano', prices: [
+    { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  ] },
+  { providers: ['openai'], model: 'gpt-4o', prices: [
+    { input: 2.5, output: 10, cachedInput: 1.25 },
+  ] },
+  { providers: ['openai'], model: 'gpt-4o-mini', prices: [
+    { input: 0.15, output: 0.6, cachedInput: 0.075 },
+  ] },
+  { providers: ['openai'], model: 'gpt-4-turbo', prices: [
+    { input: 10, output: 30 },
+  ] },
+  { providers: ['openai'], model: 'gpt-4', prices: [
+    { input: 30, output: 60 },
+  ] },
+  { providers: ['openai'], model: 'gpt-3.5-turbo', prices: [
+    { input: 0.5, output: 1.5 },
+  ] },
+  { providers: ['openai'], model: 'o1', prices: [
+    { input: 15, output: 60, cachedInput: 7.5 },
+  ] },
+  { providers: ['openai'], model: 'o1-mini', prices: [
+    { input: 1.1, output: 4.4, cachedInput: 0.55 },
+  ] },
+  { providers: ['openai'], model: 'o3', prices: [
+    { input: 10, output: 40, cachedInput: 2.5 },
+    { input: 2, output: 8, cachedInput: 0.5, effectiveFrom: '2025-06-10' },
+  ] },
+  { providers: ['openai'], model: 'o3-mini', prices: [
+    { input: 1.1, output: 4.4, cachedInput: 0.55 },
+  ] },
+  { providers: ['openai'], model: 'o4-mini', prices: [
+    { input: 1.1, output: 4.4, cachedInput: 0.275 },
+  ] },
+
+  // Anthropic (direct or through Vertex AI)
+  { providers: ['anthropic', 'vertexai'], model: 'claude-opus-4', prices: [
+    { input: 15, output: 75, cachedInput: 1.5 },
+  ] },
+  { providers: ['anthropic', 'vertexai'], model: 'claude-sonnet-4', prices: [
+    { input: 3, output: 15, cachedInput: 0.3 },
+  ] },
+  { providers: ['anthropic', 'vertexai'], model: 'claude-3-7-sonnet', prices: [
+    { input: 3, output: 15, cachedInput: 0.3 },
+  ] },
+  { providers: ['anthropic', 'vertexai'], model: 'claude-3-5-sonnet', prices: [
+    { input: 3, output: 15, cachedInput: 0.3 },
+  ] },
+  { providers: ['anthropic', 'vertexai'], model: 'claude-3-5-haiku', prices: [
+    { input: 0.8, output: 4, cachedInput: 0.08 },
+  ] },
+  { providers: ['anthropic', 'vertexai'], model: 'claude-3-opus', prices: [
+    { input: 15, output: 75, cachedInput: 1.5 },
+  ] },
+  { providers: ['anthropic', 'vertexai'], model: 'claude-3-haiku', prices: [
+    { input: 0.25, output: 1.25, cachedInput: 0.03 },
+  ] },
+
+  // Embedding models
+  { providers: ['googleai', 'vertexai'], model: 'gemini-embedding-001', prices: [
+    { input: 0.15, output: 0 },
+  ] },
+  { providers: ['openai'], model: 'text-embedding-3-small', prices: [
+    { input: 0.02, output: 0 },
+  ] },
+  { providers: ['openai'], model: 'text-embedding-3-large', prices: [
+    { input: 0.13, output: 0 },
+  ] },
+  { providers: ['openai'], model: 'text-embedding-ada-002', prices: [
+    { input: 0.1, output: 0 },
+  ] },
+];
+
+/**
+ * A price resolved for a specific model and date.
+ */
+export interface ResolvedPrice {
+  price: ModelPrice;
+  source: 'override' | 'catalog';
+}
+
+/**
+ * Usage and cost fields of a Langfuse generation.
+ */
+export interface GenerationCost {
+  usageDetails: Record<string, number>;
+  costDetails?: CostDetails;
+  /** Set when the cost comes from `calculateCost` */
+  totalCost?: number;
+  /** Origin of catalog or override prices, for the generation metadata */
+  pricing?: { source: 'catalog'; catalogVersion: string } | { source: 'override' };
+}
+
+/**
+ * Looks up model prices and turns token usage into Langfuse cost details.
+ */
+export class ModelPricing {
+  private readonly catalog: PricingCatalogEntry[];
+  private readonly overrides: PricingCatalogEntry[];
+
+  constructor(options: PricingOptions = {}) {
+    this.catalog = options.disableCatalog ? [] : DEFAULT_PRICING_CATALOG;
+    this.overrides = Object.entries(options.overrides || {}).map(([key, prices]) => {
+      const { provider, model } = splitModelName(key);
+      return {
+        providers: provider ? [provider] : [],
+        model,
+        prices: Array.isArray(prices) ? prices : [prices],
+      };
+    });
+  }
+
+  /**
+   * Find the price for a model at a point in time.
+   *
+   * @param provider Provider parsed from the span, or 'unknown'
+   * @param modelName Model name, optionally prefixed with `provider/`
+   */
+  findPrice(provider: string, modelName: string, at: Date = new Date()): ResolvedPrice | undefined {
+    const parsed = splitModelName(modelName);
+    const resolvedProvider = provider && provider !== 'unknown' ? provider : parsed.provider;
+
+    const override = findEntry(this.overrides, resolvedProvider, parsed.model);
+    const overridePrice = override && priceAt(override, at);
+    if (overridePrice) {
+      return { price: overridePrice, source: 'override' };
+    }
+
+    const entry = findEntry(this.catalog, resolvedProvider, parsed.model);
+    const catalogPrice = entry && priceAt(entry, at);
+    return catalogPrice ? { price: catalogPrice, source: 'catalog' } : undefined;
+  }
+
+  /**
+   * Usage details and cost of a model call, from `calculateCost` if given,
+   * otherwise from the price overrides and catalog.
+   *
+   * @param onError Called when `calculateCost` throws; catalog prices are used instead
+   */
+  priceGeneration(
+    provider: string,
+    modelName: string,
+    usage: TokenUsage,
+    at: Date,
+    calculateCost?: LangfuseConfig['calculateCost'],
+    onError?: (error: unknown) => void
+  ): GenerationCost {
+    const resolved = this.findPrice(provider, modelName, at);
+    const defaultCostDetails = resolved && ModelPricing.calculate(resolved.price, usage);
+
+    const cachedInputTokens = Math.min(usage.cachedInputTokens || 0, usage.inputTokens);
+    const result: GenerationCost = {
+      usageDetails: {
+        input: usage.inputTokens - cachedInputTokens,
+        output: usage.outputTokens,
+        total: usage.totalTokens,
+        ...(cachedInputTokens ? { input_cached_tokens: cachedInputTokens } : {}),
+        ...(usage.thinkingTokens ? { output_reasoning_tokens: usage.thinkingTokens } : {}),
+      },
+    };
+
+    if (calculateCost) {
+      try {
+        const cost = calculateCost(modelName, usage, {
+          provider,
+          defaultCost: defaultCostDetails?.total,
+          defaultCostDetails,
+        });
+        result.totalCost = cost;
+        result.costDetails = defaultCostDetails && cost === defaultCostDetails.total
+          ? defaultCostDetails
+          : { total: cost };
+        return result;
+      } catch (error) {
+        onError?.(error);
+      }
+    }
+
+    if (resolved && defaultCostDetails) {
+      result.costDetails = defaultCostDetails;
+      result.pricing = resolved.source === 'catalog'
+        ? { source: 'catalog', catalogVersion: PRICING_CATALOG_VERSION }
+        : { source: 'override' };
+    }
+    return result;
+  }
+
+  /**
+   * Calculate the cost of a model call, keyed like Langfuse `usageDetails`.
+   */
+  static calculate(price: ModelPrice, usage: TokenUsage): CostDetails {
+    const cachedTokens = Math.min(usage.cachedInputTokens || 0, usage.inputTokens || 0);
+    const details: CostDetails = {
+      input: perToken(price.input) * ((usage.inputTokens || 0) - cachedTokens),
+      output: perToken(price.output) * (usage.outputTokens || 0),
+    };
+
+    if (cachedTokens > 0) {
+      details.input_cached_tokens = perToken(price.cachedInput ?? price.input) * cachedTokens;
+    }
+    if (usage.thinkingTokens) {
+      details.output_reasoning_tokens = perToken(price.thinking ?? price.output) * usage.thinkingTokens;
+    }
+
+    details.total = Object.values(details).reduce((sum, cost) => sum + cost, 0);
+    return details;
+  }
+}
+
+/**
+ * Split `provider/model` names as used by Genkit model actions.
+ */
+function splitModelName(name: string): { provider?: string; model: string } {
+  const separator = name.indexOf('/');
+  return separator > 0
+    ? { provider: name.slice(0, separator), model: name.slice(separator + 1) }
+    : { model: name };
+}
+
+/**
+ * Find the entry with the longest model prefix, preferring the given provider.
+ */
+function findEntry(
+  entries: PricingCatalogEntry[],
+  provider: string | undefined,
+  model: string
+): PricingCatalogEntry | undefined {
+  const matching = entries
+    .filter(entry => model === entry.model || model.startsWith(`${entry.model}-`) ||
+      model.startsWith(`${entry.model}@`))
+    .sort((a, b) => b.model.length - a.model.length);
+
+  return matching.find(entry => provider && entry.providers.includes(provider)) ||
+    matching.find(entry => entry.providers.length === 0) ||
+    matching[0];
+}
+
+/**
+ * Pick the latest price effective at the given date.
+ */
+function priceAt(entry: PricingCatalogEntry, at: Date): ModelPrice | undefined {
+  let current: ModelPrice | undefined;
+  for (const price of entry.prices) {
+    if (!price.effectiveFrom || new Date(price.effectiveFrom) <= at) {
+      if (!current || (price.effectiveFrom || '') >= (current.effectiveFrom || '')) {
+        current = price;
+      }
+    }
+  }
+  return current;
+}
+
+function perToken(pricePerMillion: number): number {
+  return pricePerMillion / 1_000_000;
+}
@@ -0,0 +1,142 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { ExecutablePrompt, Genkit, PromptConfig } from 'genkit';
+import type { Langfuse, LangfusePromptClient } from 'langfuse';
+import { createLangfuseClient } from './client.js';
+import type { LangfuseConfig, LangfusePromptOptions, LangfusePromptReference } from './types.js';
+
+/** Span attribute holding the Langfuse prompt name */
+export const PROMPT_NAME_ATTRIBUTE = 'langfuse.prompt.name';
+
+/** Span attribute holding the Langfuse prompt version */
+export const PROMPT_VERSION_ATTRIBUTE = 'langfuse.prompt.version';
+
+const activePrompt = new AsyncLocalStorage<LangfusePromptReference>();
+
+/**
+ * Run `fn` with a Langfuse prompt reference attached to every span started
+ * inside it. Generations created from those spans link to the prompt.
+ */
+export function withLangfusePrompt<T>(prompt: LangfusePromptReference | LangfusePromptClient, fn: () => T): T {
+  return activePrompt.run(
+    { name: prompt.name, version: prompt.version, isFallback: prompt.isFallback },
+    fn
+  );
+}
+
+/**
+ * Prompt reference of the enclosing `withLangfusePrompt` call, if any.
+ */
+export function getActivePromptReference(): LangfusePromptReference | undefined {
+  return activePrompt.getStore();
+}
+
+/**
+ * Options for turning a Langfuse prompt into a Genkit prompt.
+ */
+export type DefineLangfusePromptOptions = LangfusePromptOptions &
+  Omit<PromptConfig, 'name' | 'prompt' | 'system' | 'messages'> & {
+    /** Name of the Genkit prompt (default: the Langfuse prompt name) */
+    name?: string;
+  };
+
+/**
+ * Fetches prompts from Langfuse Prompt Management and registers them as
+ * Genkit prompts whose generations link back to the prompt version.
+ *
+ * Fetched prompts are cached locally for `cacheTtlSeconds`; when Langfuse is
+ * unreachable, the `fallback` template is used and no link is recorded.
+ */
+export class LangfusePromptManager {
+  private readonly langfuse: Langfuse;
+
+  constructor(client: Langfuse | Partial<LangfuseConfig> = {}) {
+    this.langfuse = createLangfuseClient(client);
+  }
+
+  /**
+   * Fetch a prompt, served from the local cache while it is fresh.
+   */
+  async getPrompt(name: string, options: LangfusePromptOptions = {}): Promise<LangfusePromptClient> {
+    const { version, type = 'text', ...fetchOptions } = options;
+    // The SDK overloads tie the fallback type to the prompt type
+    return this.langfuse.getPrompt(name, version, { ...fetchOptions, type } as any);
+  }
+
+  /**
+   * Fetch a prompt and register it with Genkit.
+   *
+   * The model defaults to `model` from the prompt's Langfuse config; the
+   * remaining config entries become the model config.
+   */
+  async definePrompt(ai: Genkit, name: string, options: DefineLangfusePromptOptions = {}): Promise<ExecutablePrompt<any, any, any>> {
+    const {
+      version, label, type, cacheTtlSeconds, fallback, maxRetries, fetchTimeoutMs,
+      name: genkitName, model, config, ...promptConfig
+    } = options;
+    const prompt = await this.getPrompt(name, {
+      version, label, type, cacheTtlSeconds, fallback, maxRetries, fetchTimeoutMs,
+    });
+    const { model: promptModel, ...promptModelConfig } = toRecord(prompt.config);
+
+    const executable = ai.definePrompt({
+      ...promptConfig,
+      name: genkitName || name,
+      model: model || (promptModel as string | undefined),
+      config: { ...promptModelConfig, ...config },
+      messages: toTemplate(prompt),
+    });
+    return linkPrompt(executable, prompt);
+  }
+}
+
+/**
+ * Convert a Langfuse prompt into a dotprompt source, with the model and
+ * model config from the prompt's Langfuse config in the front matter.
+ */
+export function toDotprompt(prompt: LangfusePromptClient): string {
+  const { model, ...config } = toRecord(prompt.config);
+  // JSON values are valid YAML
+  const frontMatter = [
+    model !== undefined ? `model: ${JSON.stringify(model)}` : undefined,
+    Object.keys(config).length > 0 ? `config: ${JSON.stringify(config)}` : undefined,
+  ].filter(Boolean);
+
+  const template = toTemplate(prompt);
+  return frontMatter.length > 0 ? `---\n${frontMatter.join('\n')}\n---\n${template}` : template;
+}
+
+/**
+ * Langfuse `{{variable}}` syntax is valid Handlebars. Chat messages become
+ * role blocks and message placeholders the conversation history.
+ */
+function toTemplate(prompt: LangfusePromptClient): string {
+  if (typeof prompt.prompt === 'string') {
+    return prompt.prompt;
+  }
+
+  return prompt.prompt.map((message: any) => {
+    if (message.type === 'placeholder') {
+      return '{{history}}';
+    }
+    const role = message.role === 'assistant' ? 'model' : message.role;
+    return `{{role "${role}"}}\n${message.content}`;
+  }).join('\n');
+}
+
+function linkPrompt(
+  executable: ExecutablePrompt<any, any, any>,
+  prompt: LangfusePromptClient
+): ExecutablePrompt<any, any, any> {
+  const linked = ((input, opts) =>
+    withLangfusePrompt(prompt, () => executable(input, opts))) as ExecutablePrompt<any, any, any>;
+
+  linked.ref = executable.ref;
+  linked.render = executable.render;
+  linked.asTool = executable.asTool;
+  linked.stream = (input, opts) => withLangfusePrompt(prompt, () => executable.stream(input, opts));
+  return linked;
+}
+
+function toRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? { ...value as Record<string, unknown> } : {};
+}
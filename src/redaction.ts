@@ -0,0 +1,262 @@
+import type {
+  RedactionContext,
+  RedactionDetector,
+  RedactionOptions,
+} from './types.js';
+
+type PathSegment = string | number;
+
+/**
+ * Compiled JSON path segment. `descend` matches any number of segments.
+ */
+type PathMatcher =
+  | { kind: 'key'; name: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'any' }
+  | { kind: 'descend' };
+
+/**
+ * Compiled string replacement.
+ */
+interface StringRule {
+  pattern: RegExp;
+  replacement: string;
+  validate?: (match: string) => boolean;
+}
+
+/**
+ * Result of redacting a payload.
+ */
+export interface RedactionResult<T> {
+  value: T;
+  /** Number of values that were replaced, masked or removed */
+  maskedCount: number;
+}
+
+const MAX_DEPTH = 64;
+const REMOVED = Symbol('removed');
+
+const DETECTORS: Record<RedactionDetector, StringRule> = {
+  email: {
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+    replacement: '[REDACTED_EMAIL]',
+  },
+  creditCard: {
+    pattern: /\b(?:\d[ -]?){12,18}\d\b/g,
+    replacement: '[REDACTED_CREDIT_CARD]',
+    validate: passesLuhnCheck,
+  },
+  // A leading `+`, an area code in parentheses or separated groups, so plain IDs are kept
+  phone: {
+    pattern: new RegExp([
+      '\\+\\d{1,3}[\\s.-]?(?:\\(\\d{1,4}\\)|\\d{2,4})[\\s.-]?\\d{3,4}[\\s.-]?\\d{3,4}\\b',
+      '(?:\\(\\d{2,4}\\)[\\s.-]?|\\b\\d{2,4}[\\s.-])\\d{3,4}[\\s.-]\\d{3,4}\\b',
+    ].join('|'), 'g'),
+    replacement: '[REDACTED_PHONE]',
+  },
+  apiKey: {
+    pattern: new RegExp([
+      '\\b(?:sk|pk)-(?:lf-|proj-|ant-)?[A-Za-z0-9_-]{16,}',
+      '\\bAIza[0-9A-Za-z_-]{35}',
+      '\\bAKIA[0-9A-Z]{16}\\b',
+      '\\bgh[pousr]_[A-Za-z0-9]{36,}',
+      '\\bxox[abposr]-[A-Za-z0-9-]{10,}',
+      '\\bBearer\\s+[A-Za-z0-9._~+/-]{20,}=*',
+    ].join('|'), 'g'),
+    replacement: '[REDACTED_API_KEY]',
+  },
+};
+
+// Card numbers look like phone numbers, so they are checked first
+const DETECTOR_ORDER: RedactionDetector[] = ['email', 'creditCard', 'apiKey', 'phone'];
+
+/**
+ * Masks sensitive data in observation payloads before they leave the process.
+ *
+ * Values are copied, never modified in place, so spans shared with other
+ * exporters are left untouched.
+ */
+export class Redactor {
+  private readonly options: RedactionOptions;
+  private readonly stringRules: StringRule[];
+  private readonly removePaths: PathMatcher[][];
+
+  constructor(options: RedactionOptions = {}) {
+    this.options = options;
+    const replacement = options.replacement ?? '[REDACTED]';
+
+    this.stringRules = [
+      ...DETECTOR_ORDER
+        .filter(detector => options.detectors?.includes(detector))
+        .map(detector => DETECTORS[detector]),
+      ...(options.rules || []).map(rule => ({
+        pattern: typeof rule.pattern === 'string'
+          ? new RegExp(rule.pattern, 'g')
+          : ensureGlobal(rule.pattern),
+        replacement: rule.replacement ?? replacement,
+      })),
+    ];
+    this.removePaths = (options.removePaths || []).map(compilePath);
+  }
+
+  /**
+   * Whether any redaction is configured.
+   */
+  get enabled(): boolean {
+    return this.stringRules.length > 0 || this.removePaths.length > 0 || Boolean(this.options.mask);
+  }
+
+  /**
+   * Redact one observation field.
+   */
+  redact<T>(value: T, context: Omit<RedactionContext, 'path'>): RedactionResult<T> {
+    if (!this.enabled || value === undefined || value === null) {
+      return { value, maskedCount: 0 };
+    }
+
+    const state = { maskedCount: 0 };
+    const redacted = this.redactValue(value, [context.field], context, state, 0);
+    return {
+      value: (redacted === REMOVED ? undefined : redacted) as T,
+      maskedCount: state.maskedCount,
+    };
+  }
+
+  private redactValue(
+    value: unknown,
+    path: PathSegment[],
+    context: Omit<RedactionContext, 'path'>,
+    state: { maskedCount: number },
+    depth: number
+  ): unknown {
+    if (this.removePaths.some(matcher => matchesPath(matcher, 0, path, 0))) {
+      state.maskedCount++;
+      return REMOVED;
+    }
+
+    if (Array.isArray(value)) {
+      if (depth >= MAX_DEPTH) return value;
+      const result: unknown[] = [];
+      value.forEach((item, index) => {
+        const redacted = this.redactValue(item, [...path, index], context, state, depth + 1);
+        if (redacted !== REMOVED) result.push(redacted);
+      });
+      return result;
+    }
+
+    if (isPlainObject(value)) {
+      if (depth >= MAX_DEPTH) return value;
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        const redacted = this.redactValue(item, [...path, key], context, state, depth + 1);
+        if (redacted !== REMOVED) result[key] = redacted;
+      }
+      return result;
+    }
+
+    let result = value;
+    if (typeof result === 'string') {
+      for (const rule of this.stringRules) {
+        result = (result as string).replace(rule.pattern, (match) => {
+          if (rule.validate && !rule.validate(match)) return match;
+          state.maskedCount++;
+          return rule.replacement;
+        });
+      }
+    }
+
+    if (this.options.mask && isPrimitive(result)) {
+      const masked = this.options.mask(result, { ...context, path: formatPath(path) });
+      if (masked !== result) {
+        state.maskedCount++;
+        result = masked;
+      }
+    }
+    return result;
+  }
+}
+
+/**
+ * Compile a JSON path such as `$.input.messages[*].content` or `$..password`.
+ */
+function compilePath(path: string): PathMatcher[] {
+  const matchers: PathMatcher[] = [];
+  const tokenizer = /\.\.|\.|\[(\*|\d+|'[^']*'|"[^"]*")\]|([^.[\]]+)/g;
+  const source = path.startsWith('$') ? path.slice(1) : path;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenizer.exec(source)) !== null) {
+    const [token, bracket, name] = match;
+    if (token === '..') {
+      matchers.push({ kind: 'descend' });
+    } else if (bracket !== undefined) {
+      if (bracket === '*') {
+        matchers.push({ kind: 'any' });
+      } else if (/^\d+$/.test(bracket)) {
+        matchers.push({ kind: 'index', index: Number(bracket) });
+      } else {
+        matchers.push({ kind: 'key', name: bracket.slice(1, -1) });
+      }
+    } else if (name !== undefined) {
+      matchers.push(name === '*' ? { kind: 'any' } : { kind: 'key', name });
+    }
+  }
+  return matchers;
+}
+
+function matchesPath(matchers: PathMatcher[], i: number, path: PathSegment[], j: number): boolean {
+  if (i === matchers.length) return j === path.length;
+
+  const matcher = matchers[i];
+  if (matcher.kind === 'descend') {
+    for (let k = j; k <= path.length; k++) {
+      if (matchesPath(matchers, i + 1, path, k)) return true;
+    }
+    return false;
+  }
+  if (j === path.length) return false;
+
+  const segment = path[j];
+  const matched = matcher.kind === 'any' ||
+    (matcher.kind === 'key' && String(segment) === matcher.name) ||
+    (matcher.kind === 'index' && segment === matcher.index);
+  return matched && matchesPath(matchers, i + 1, path, j + 1);
+}
+
+function formatPath(path: PathSegment[]): string {
+  return path
+    .map((segment, index) => typeof segment === 'number'
+      ? `[${segment}]`
+      : index === 0 ? segment : `.${segment}`)
+    .join('');
+}
+
+function ensureGlobal(pattern: RegExp): RegExp {
+  return pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function isPrimitive(value: unknown): boolean {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+function passesLuhnCheck(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
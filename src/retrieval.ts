@@ -0,0 +1,110 @@
+import type { RetrievalOptions } from './types.js';
+
+/**
+ * Retrieved document as shown in Langfuse.
+ */
+export interface RetrievedDocument {
+  id?: string;
+  text: string;
+  score?: number;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Retrieval statistics added to the observation metadata.
+ */
+export interface RetrievalStats {
+  documentCount: number;
+  latencyMs: number;
+  maxScore?: number;
+  minScore?: number;
+  meanScore?: number;
+}
+
+/**
+ * Structured retriever observation payloads.
+ */
+export interface FormattedRetrieval {
+  input: { query: string; options?: unknown };
+  output: { documents: RetrievedDocument[]; count: number };
+  stats: RetrievalStats;
+}
+
+const ID_KEYS = ['id', 'docId', 'documentId', '_id'];
+const SCORE_KEYS = ['score', 'relevanceScore', 'similarity', '_score'];
+
+const DEFAULT_MAX_TEXT_LENGTH = 1000;
+
+/**
+ * Turn the input and output of a Genkit retriever action into the query,
+ * the retrieved documents and retrieval statistics.
+ *
+ * @param input Parsed retriever request, `{ query, options }`
+ * @param output Parsed retriever response, `{ documents }`
+ * @returns `undefined` when the payloads are not a retriever request and response
+ */
+export function formatRetrieval(
+  input: any,
+  output: any,
+  latencyMs: number,
+  options: RetrievalOptions = {}
+): FormattedRetrieval | undefined {
+  if (!Array.isArray(output?.documents)) {
+    return undefined;
+  }
+
+  const maxTextLength = options.maxTextLength ?? DEFAULT_MAX_TEXT_LENGTH;
+  const documents = output.documents.map((document: any) => toRetrievedDocument(document, maxTextLength));
+  const scores = documents
+    .map((document: RetrievedDocument) => document.score)
+    .filter((score: number | undefined): score is number => score !== undefined);
+
+  const stats: RetrievalStats = { documentCount: documents.length, latencyMs };
+  if (scores.length > 0) {
+    stats.maxScore = Math.max(...scores);
+    stats.minScore = Math.min(...scores);
+    stats.meanScore = scores.reduce((sum: number, score: number) => sum + score, 0) / scores.length;
+  }
+
+  return {
+    input: {
+      query: documentText(input?.query),
+      ...(input?.options !== undefined ? { options: input.options } : {}),
+    },
+    output: { documents, count: documents.length },
+    stats,
+  };
+}
+
+function toRetrievedDocument(document: any, maxTextLength: number): RetrievedDocument {
+  const text = documentText(document);
+  const metadata = document?.metadata && typeof document.metadata === 'object'
+    ? { ...document.metadata }
+    : undefined;
+
+  const retrieved: RetrievedDocument = {
+    text: text.length > maxTextLength ? `${text.slice(0, maxTextLength)}…` : text,
+  };
+  const id = metadata && ID_KEYS.map(key => metadata[key]).find(value => value !== undefined && value !== null);
+  if (id !== undefined) retrieved.id = String(id);
+  const score = metadata && SCORE_KEYS.map(key => metadata[key])
+    .find((value): value is number => typeof value === 'number' && Number.isFinite(value));
+  if (score !== undefined) retrieved.score = score;
+  if (metadata && Object.keys(metadata).length > 0) retrieved.metadata = metadata;
+  return retrieved;
+}
+
+/**
+ * Text of a Genkit document, with media parts as placeholders.
+ */
+export function documentText(document: any): string {
+  if (typeof document === 'string') return document;
+  if (!Array.isArray(document?.content)) return '';
+  return document.content
+    .map((part: any) => {
+      if (typeof part?.text === 'string') return part.text;
+      if (part?.media) return `[${part.media.contentType || 'media'}]`;
+      return '';
+    })
+    .join('');
+}
@@ -0,0 +1,296 @@
+import * as path from 'path';
+import { ExportResultCode, type ExportResult } from '@opentelemetry/core';
+import type { ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base';
+import { DEFAULT_DESTINATION } from './config.js';
+import { LangfuseExporter } from './exporter.js';
+import { PluginLogger } from './logger.js';
+import { SpanMetadataExtractor, type ExtractedMetadata } from './metadata-extractor.js';
+import { createScoreBody, type ScoreTarget } from './scores.js';
+import { globToRegExp, SpanFilter } from './span-filter.js';
+import { mergeTraceContexts } from './trace-context.js';
+import type { LangfuseConfig, LangfuseDestination, LangfuseScore, LangfuseTraceContext, RoutingRule } from './types.js';
+
+/** Traces whose destination is remembered, for their remaining spans and scores */
+const MAX_ROUTED_TRACES = 10000;
+
+/** Spans held back waiting for the root of their trace */
+const MAX_BUFFERED_SPANS = 10000;
+
+/** Time a trace may wait for its root before it is routed early */
+const MAX_TRACE_AGE_MILLIS = 300000;
+
+/**
+ * Spans of a trace whose root has not been exported yet.
+ */
+interface BufferedTrace {
+  spans: ReadableSpan[];
+  /** Scores recorded before the trace was routed */
+  scores: LangfuseScore[];
+  /** Trace context of the spans, inner contexts taking precedence */
+  context?: LangfuseTraceContext;
+  bufferedAt: number;
+}
+
+/**
+ * Span exporter that sends each trace to one of several Langfuse projects,
+ * each with its own client, batching and spool.
+ *
+ * Spans are held back until the root span of their trace is exported. The
+ * trace is then routed by its root: the first matching rule picks the
+ * destination, with the trace context of every span of the trace, so a
+ * tenant set inside the flow counts. Scores of a held back trace wait with
+ * its spans; later spans and scores of the trace follow it. Traces no rule matches go to the main project; traces whose
+ * root does not arrive in time are routed by the outermost span seen.
+ *
+ * Rules must name configured destinations, which `resolveConfig` checks.
+ */
+export class RoutingExporter implements SpanExporter, ScoreTarget {
+  private readonly exporters = new Map<string, LangfuseExporter>();
+  private readonly rules: RoutingRule[];
+  private readonly routes = new Map<string, string>();
+  private readonly traces = new Map<string, BufferedTrace>();
+  private readonly logger: PluginLogger;
+  private readonly now: () => number;
+  private bufferedCount = 0;
+
+  /**
+   * @param now Clock for the buffer age limit
+   */
+  constructor(
+    config: LangfuseConfig,
+    logger: PluginLogger = PluginLogger.fromConfig(config),
+    now: () => number = Date.now
+  ) {
+    const { destinations = {}, routing = [], ...main } = config;
+    this.rules = routing;
+    this.now = now;
+    this.logger = logger.child({ component: 'routing' });
+    this.exporters.set(DEFAULT_DESTINATION, new LangfuseExporter(main, logger));
+    for (const [name, destination] of Object.entries(destinations)) {
+      this.exporters.set(
+        name,
+        new LangfuseExporter(destinationConfig(main, name, destination), logger.child({ destination: name }))
+      );
+    }
+  }
+
+  /**
+   * Export spans, each to the destination of its trace, along with the
+   * buffered spans of traces whose root arrived. The result is reported once
+   * every destination has reported.
+   */
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    const batches = new Map<string, ReadableSpan[]>();
+    for (const span of spans) {
+      this.accept(span, batches);
+    }
+    this.enforceLimits(batches);
+    this.exportBatches(batches, resultCallback);
+  }
+
+  /**
+   * Attach a score to an exported trace or observation, in the project the
+   * trace was sent to. Scores of a trace whose spans are held back are sent
+   * once it is routed. Scores of traces routed too long ago go to the main
+   * project.
+   *
+   * @returns ID of the score
+   * @throws TypeError if the score is invalid
+   */
+  score(score: LangfuseScore): string {
+    const trace = score.traceId ? this.traces.get(score.traceId) : undefined;
+    if (trace) {
+      const { id } = createScoreBody(score);
+      trace.scores.push({ ...score, id });
+      return id;
+    }
+    const destination = (score.traceId && this.routes.get(score.traceId)) || DEFAULT_DESTINATION;
+    return this.exporters.get(destination)!.score(score);
+  }
+
+  /**
+   * Destination a trace was routed to, once its root has been exported.
+   */
+  destinationOf(traceId: string): string | undefined {
+    return this.routes.get(traceId);
+  }
+
+  /**
+   * Number of spans waiting for the root of their trace.
+   */
+  get bufferedSpans(): number {
+    return this.bufferedCount;
+  }
+
+  /**
+   * Route the buffered traces and shut down every destination.
+   */
+  async shutdown(): Promise<void> {
+    await this.drain();
+    await Promise.all([...this.exporters.values()].map(exporter => exporter.shutdown()));
+  }
+
+  /**
+   * Route the buffered traces and force flush every destination.
+   */
+  async forceFlush(): Promise<void> {
+    await this.drain();
+    await Promise.all([...this.exporters.values()].map(exporter => exporter.forceFlush()));
+  }
+
+  /**
+   * Add a span to the batch of its trace's destination, or buffer it until
+   * the trace's root arrives.
+   */
+  private accept(span: ReadableSpan, batches: Map<string, ReadableSpan[]>): void {
+    const traceId = span.spanContext().traceId;
+    const routed = this.routes.get(traceId);
+    if (routed !== undefined) {
+      addToBatch(batches, routed, [span]);
+      return;
+    }
+
+    let trace = this.traces.get(traceId);
+    if (!trace) {
+      trace = { spans: [], scores: [], bufferedAt: this.now() };
+      this.traces.set(traceId, trace);
+    }
+    const metadata = SpanMetadataExtractor.extractMetadata(span);
+    trace.spans.push(span);
+    // Spans end innermost first, so contexts recorded earlier are the more specific ones
+    trace.context = mergeTraceContexts(metadata.traceContext, trace.context);
+    this.bufferedCount++;
+
+    if (SpanFilter.toSpanData(span, metadata).isRoot) {
+      this.release(traceId, trace, span, metadata, batches);
+    }
+  }
+
+  /**
+   * Route a buffered trace by the given span and move its spans to the batch
+   * of the destination.
+   */
+  private release(
+    traceId: string,
+    trace: BufferedTrace,
+    span: ReadableSpan,
+    metadata: ExtractedMetadata,
+    batches: Map<string, ReadableSpan[]>
+  ): void {
+    this.traces.delete(traceId);
+    this.bufferedCount -= trace.spans.length;
+
+    const routingMetadata = { ...metadata, traceContext: trace.context };
+    const destination = this.rules.find(rule => routingRuleMatches(rule, span, routingMetadata))?.destination ??
+      DEFAULT_DESTINATION;
+    if (this.routes.size >= MAX_ROUTED_TRACES) {
+      this.routes.delete(this.routes.keys().next().value!);
+    }
+    this.routes.set(traceId, destination);
+    this.logger.trace(`Routing trace ${traceId} to ${destination}`, { spanName: span.name });
+    addToBatch(batches, destination, trace.spans);
+    for (const score of trace.scores) {
+      this.exporters.get(destination)!.score(score);
+    }
+  }
+
+  /**
+   * Route the oldest traces early while too many spans are buffered or they
+   * have waited too long for their root.
+   */
+  private enforceLimits(batches: Map<string, ReadableSpan[]>): void {
+    const oldest = this.now() - MAX_TRACE_AGE_MILLIS;
+    for (const [traceId, trace] of this.traces) {
+      if (this.bufferedCount <= MAX_BUFFERED_SPANS && trace.bufferedAt > oldest) break;
+      this.releaseEarly(traceId, trace, batches);
+    }
+  }
+
+  /**
+   * Route a trace whose root has not arrived by the last span to end, the
+   * outermost one seen so far.
+   */
+  private releaseEarly(traceId: string, trace: BufferedTrace, batches: Map<string, ReadableSpan[]>): void {
+    const outermost = trace.spans[trace.spans.length - 1];
+    this.release(traceId, trace, outermost, SpanMetadataExtractor.extractMetadata(outermost), batches);
+  }
+
+  /**
+   * Route and export every buffered trace. Used on flush and shutdown.
+   */
+  private drain(): Promise<ExportResult> {
+    const batches = new Map<string, ReadableSpan[]>();
+    for (const [traceId, trace] of this.traces) {
+      this.releaseEarly(traceId, trace, batches);
+    }
+    return new Promise(resolve => this.exportBatches(batches, resolve));
+  }
+
+  /**
+   * Export each destination's batch and report once every destination has
+   * reported.
+   */
+  private exportBatches(
+    batches: Map<string, ReadableSpan[]>,
+    resultCallback: (result: ExportResult) => void
+  ): void {
+    if (batches.size === 0) {
+      resultCallback({ code: ExportResultCode.SUCCESS });
+      return;
+    }
+
+    let remaining = batches.size;
+    let failure: ExportResult | undefined;
+    for (const [destination, batch] of batches) {
+      this.exporters.get(destination)!.export(batch, (result) => {
+        if (result.code !== ExportResultCode.SUCCESS) {
+          failure = failure || result;
+        }
+        if (--remaining === 0) {
+          resultCallback(failure || { code: ExportResultCode.SUCCESS });
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Configuration of a destination: the main configuration with the
+ * destination's options on top. Spooled events are kept in a subdirectory
+ * so destinations do not redeliver each other's events.
+ */
+function destinationConfig(main: LangfuseConfig, name: string, destination: LangfuseDestination): LangfuseConfig {
+  const config: LangfuseConfig = { ...main, ...destination };
+  if (main.spool && !destination.spool) {
+    config.spool = { ...main.spool, directory: path.join(main.spool.directory, name) };
+  }
+  return config;
+}
+
+function routingRuleMatches(rule: RoutingRule, span: ReadableSpan, metadata: ExtractedMetadata): boolean {
+  const data = SpanFilter.toSpanData(span, metadata);
+  if (rule.flowName !== undefined && !includes(rule.flowName, data.flowName)) {
+    return false;
+  }
+  if (rule.path !== undefined && !(data.path && globToRegExp(rule.path).test(data.path))) {
+    return false;
+  }
+  const tenant = metadata.traceContext?.metadata?.tenant;
+  if (rule.tenant !== undefined && !includes(rule.tenant, typeof tenant === 'string' ? tenant : undefined)) {
+    return false;
+  }
+  return true;
+}
+
+function addToBatch(batches: Map<string, ReadableSpan[]>, destination: string, spans: ReadableSpan[]): void {
+  const batch = batches.get(destination);
+  if (batch) {
+    batch.push(...spans);
+  } else {
+    batches.set(destination, [...spans]);
+  }
+}
+
+function includes(expected: string | string[], actual: string | undefined): boolean {
+  return actual !== undefined && (Array.isArray(expected) ? expected : [expected]).includes(actual);
+}
@@ -0,0 +1,118 @@
+import { randomUUID } from 'crypto';
+import { isSpanContextValid, trace } from '@opentelemetry/api';
+import type { LangfuseScore, ScoreDataType } from './types.js';
+
+/**
+ * Destination for scores recorded with `score()`.
+ */
+export interface ScoreTarget {
+  score(score: LangfuseScore): string;
+}
+
+let defaultTarget: ScoreTarget | undefined;
+
+/**
+ * Set the destination for `score()`. Called by the telemetry provider when it
+ * creates its exporter.
+ */
+export function setDefaultScoreTarget(target: ScoreTarget | undefined): void {
+  defaultTarget = target;
+}
+
+/**
+ * Attach a score to a trace or observation exported by the plugin. The score
+ * is sent with the next batch.
+ *
+ * @returns ID of the score, usable to update it later
+ * @throws Error if Langfuse telemetry is not enabled or the score is invalid
+ *
+ * @example
+ * ```typescript
+ * score({ traceId, name: 'user-feedback', value: thumbsUp, comment });
+ * ```
+ */
+export function score(score: LangfuseScore): string {
+  if (!defaultTarget) {
+    throw new Error('Langfuse telemetry is not enabled; add the langfuse() plugin before recording scores');
+  }
+  return defaultTarget.score(score);
+}
+
+/**
+ * ID of the Langfuse trace the current Genkit flow is exported as.
+ */
+export function getCurrentTraceId(): string | undefined {
+  const spanContext = trace.getActiveSpan()?.spanContext();
+  return spanContext && isSpanContextValid(spanContext) ? spanContext.traceId : undefined;
+}
+
+/**
+ * ID of the Langfuse observation for the currently running Genkit action.
+ */
+export function getCurrentObservationId(): string | undefined {
+  const spanContext = trace.getActiveSpan()?.spanContext();
+  return spanContext && isSpanContextValid(spanContext) ? spanContext.spanId : undefined;
+}
+
+/**
+ * Validate a score and convert it into a Langfuse `score-create` body.
+ *
+ * @throws TypeError if a field is missing or the value does not match the data type
+ */
+export function createScoreBody(score: LangfuseScore): Record<string, any> {
+  if (!score.traceId) {
+    throw new TypeError('Score traceId is required');
+  }
+  if (!score.name) {
+    throw new TypeError('Score name is required');
+  }
+
+  const dataType = score.dataType || inferDataType(score.value);
+  const body: Record<string, any> = {
+    id: score.id || randomUUID(),
+    traceId: score.traceId,
+    name: score.name,
+    value: toScoreValue(score.value, dataType, score.name),
+    dataType,
+  };
+
+  if (score.observationId) {
+    body.observationId = score.observationId;
+  }
+  if (score.comment !== undefined) {
+    body.comment = score.comment;
+  }
+  if (score.configId) {
+    body.configId = score.configId;
+  }
+  if (score.metadata) {
+    body.metadata = score.metadata;
+  }
+  return body;
+}
+
+function inferDataType(value: LangfuseScore['value']): ScoreDataType {
+  if (typeof value === 'boolean') return 'BOOLEAN';
+  if (typeof value === 'string') return 'CATEGORICAL';
+  return 'NUMERIC';
+}
+
+/**
+ * Langfuse expects numbers for numeric and boolean scores (1 or 0) and
+ * strings for categorical scores.
+ */
+function toScoreValue(value: LangfuseScore['value'], dataType: ScoreDataType, name: string): number | string {
+  switch (dataType) {
+    case 'BOOLEAN':
+      if (typeof value === 'boolean') return value ? 1 : 0;
+      if (value === 0 || value === 1) return value;
+      break;
+    case 'NUMERIC':
+      if (typeof value === 'number' && Number.isFinite(value)) return value;
+      break;
+    case 'CATEGORICAL':
+      if (typeof value === 'string') return value;
+      break;
+  }
+  throw new TypeError(`Invalid value ${JSON.stringify(value)} for ${dataType} score ${name}`);
+}
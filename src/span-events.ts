@@ -0,0 +1,59 @@
+import { hrTimeToMilliseconds } from '@opentelemetry/core';
+import type { ReadableSpan } from '@opentelemetry/sdk-trace-base';
+import { globToRegExp } from './span-filter.js';
+import type { SpanEventOptions } from './types.js';
+
+/**
+ * Converts OpenTelemetry span events into Langfuse event observations.
+ */
+export class SpanEventConverter {
+  private readonly enabled: boolean;
+  private readonly include?: RegExp[];
+  private readonly exclude: RegExp[];
+
+  constructor(options: SpanEventOptions | false = {}) {
+    this.enabled = options !== false;
+    const { include, exclude = [] } = options || {};
+    this.include = include?.map(globToRegExp);
+    this.exclude = exclude.map(globToRegExp);
+  }
+
+  /**
+   * Whether events with this name are exported.
+   */
+  accepts(name: string): boolean {
+    if (!this.enabled) return false;
+    if (this.exclude.some(pattern => pattern.test(name))) return false;
+    return !this.include || this.include.some(pattern => pattern.test(name));
+  }
+
+  /**
+   * Langfuse event bodies for the accepted events of a span.
+   *
+   * @param parentObservationId Observation of the span, absent when the span
+   *   is exported as the trace
+   */
+  convert(span: ReadableSpan, parentObservationId?: string): Record<string, any>[] {
+    const { spanId, traceId } = span.spanContext();
+    return (span.events || []).flatMap((event, index) => {
+      if (!this.accepts(event.name)) return [];
+
+      const body: Record<string, any> = {
+        // Stable IDs let Langfuse deduplicate redelivered events
+        id: `${spanId}-event-${index}`,
+        traceId,
+        name: event.name,
+        startTime: new Date(hrTimeToMilliseconds(event.time)),
+        metadata: { ...event.attributes, spanName: span.name },
+      };
+      if (parentObservationId) {
+        body.parentObservationId = parentObservationId;
+      }
+      if (event.name === 'exception') {
+        body.level = 'ERROR';
+        body.statusMessage = event.attributes?.['exception.message'];
+      }
+      return [body];
+    });
+  }
+}
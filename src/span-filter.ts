@@ -0,0 +1,375 @@
+import { SpanStatusCode } from '@opentelemetry/api';
+import type { ReadableSpan } from '@opentelemetry/sdk-trace-base';
+import { SpanMetadataExtractor, type ExtractedMetadata } from './metadata-extractor.js';
+import type {
+  SpanData,
+  SpanFilterFunction,
+  SpanFilterOptions,
+  SpanFilterRule,
+} from './types.js';
+
+const INVALID_SPAN_ID = '0000000000000000';
+
+/** Traces whose span outcomes are remembered for spans ending after their root */
+const MAX_DECIDED_TRACES = 1000;
+
+/**
+ * A span that passed the filter, with the parent it should be attached to in Langfuse.
+ */
+export interface FilteredSpan {
+  span: ReadableSpan;
+  metadata: ExtractedMetadata;
+  parentSpanId?: string;
+  /** Whether the parent is the trace root, which Langfuse shows as the trace rather than an observation */
+  parentIsTraceRoot?: boolean;
+}
+
+/**
+ * Outcome for a span whose position in the exported tree is known.
+ */
+interface ResolvedSpan {
+  /** Span ID that children of this span should be attached to */
+  attachTo?: string;
+  /** Whether `attachTo` is the trace root */
+  attachToTraceRoot: boolean;
+  /** Whether children of this span must be dropped */
+  dropSubtree: boolean;
+}
+
+/**
+ * Span waiting for its parent to be resolved.
+ */
+interface PendingSpan {
+  span: ReadableSpan;
+  metadata: ExtractedMetadata;
+  keep: boolean;
+}
+
+/**
+ * Filter bookkeeping for a single trace.
+ */
+interface TraceFilterState {
+  resolved: Map<string, ResolvedSpan>;
+  waiting: Map<string, PendingSpan[]>;
+}
+
+/**
+ * Evaluates span filter rules and keeps the exported span tree consistent
+ * when spans are dropped.
+ *
+ * OpenTelemetry ends (and exports) children before their parents, so a span
+ * is held until its parent has been decided. Once the parent is known, the
+ * span is either attached to the nearest exported ancestor or dropped
+ * together with its dropped ancestor, depending on the `orphans` option.
+ * Spans that end after the root of their trace are released right away.
+ */
+export class SpanFilter {
+  private readonly options?: SpanFilterOptions;
+  private readonly traces = new Map<string, TraceFilterState>();
+  private readonly decided = new Map<string, TraceFilterState>();
+  private pendingCount = 0;
+
+  constructor(filter?: SpanFilterFunction | SpanFilterOptions) {
+    this.options = typeof filter === 'function' ? { predicate: filter } : filter;
+  }
+
+  /**
+   * Whether any filtering is configured.
+   */
+  get enabled(): boolean {
+    return Boolean(this.options && (this.options.rules?.length || this.options.predicate));
+  }
+
+  /**
+   * Number of spans currently held back waiting for their parent.
+   */
+  get pendingSpans(): number {
+    return this.pendingCount;
+  }
+
+  /**
+   * Build the filter view of a span.
+   */
+  static toSpanData(span: ReadableSpan, metadata: ExtractedMetadata): SpanData {
+    const spanContext = span.spanContext();
+    const flowName = SpanMetadataExtractor.extractFlowName(metadata.path) ||
+      (metadata.spanType === 'flow' || metadata.subtype === 'flow' ? metadata.name : undefined);
+
+    return {
+      name: span.name,
+      spanType: metadata.spanType,
+      subtype: metadata.subtype,
+      path: metadata.path,
+      flowName,
+      isRoot: isTraceRoot(span, metadata),
+      isError: metadata.state === 'error' || span.status?.code === SpanStatusCode.ERROR,
+      traceId: spanContext.traceId,
+      spanId: spanContext.spanId,
+      parentSpanId: span.parentSpanId,
+    };
+  }
+
+  /**
+   * Decide whether a single span should be exported, ignoring its ancestors.
+   */
+  shouldExport(data: SpanData): boolean {
+    if (!this.options) return true;
+
+    let keep = (this.options.defaultAction || 'include') === 'include';
+    const rule = this.options.rules?.find(candidate => ruleMatches(candidate, data));
+    if (rule) {
+      switch (rule.action) {
+        case 'include':
+          keep = true;
+          break;
+        case 'exclude':
+          keep = false;
+          break;
+        case 'sample':
+          keep = isSampled(data.traceId || data.spanId || data.name, rule.sampleRate ?? 1);
+          break;
+      }
+    }
+
+    if (keep && this.options.predicate) {
+      keep = this.options.predicate(data);
+    }
+    return keep;
+  }
+
+  /**
+   * Accept an ended span and return the spans that are ready to export.
+   *
+   * The result may be empty (span dropped or held back) or contain spans
+   * that were waiting on this one.
+   */
+  accept(span: ReadableSpan, metadata: ExtractedMetadata): FilteredSpan[] {
+    if (!this.enabled) {
+      return [{ span, metadata, ...originalParent(span, metadata) }];
+    }
+
+    const data = SpanFilter.toSpanData(span, metadata);
+    const pending: PendingSpan = { span, metadata, keep: this.shouldExport(data) };
+    const traceId = data.traceId!;
+    const ready: FilteredSpan[] = [];
+
+    if (data.isRoot) {
+      const state = this.traces.get(traceId) || newTraceState();
+      const parent: ResolvedSpan = { attachTo: parentOf(span), attachToTraceRoot: false, dropSubtree: false };
+      this.resolve(state, pending, parent, ready);
+      // Spans still waiting belong to parents that will never be exported here
+      ready.push(...this.releaseTrace(traceId, state));
+      this.rememberDecided(traceId, state);
+      return ready;
+    }
+
+    const decided = this.decided.get(traceId);
+    if (decided) {
+      const parent = decided.resolved.get(span.parentSpanId!);
+      if (parent) {
+        this.resolve(decided, pending, parent, ready);
+      } else if (pending.keep) {
+        // The parent ends later or was forgotten; it will not be waited for
+        ready.push({ span, metadata, ...originalParent(span, metadata) });
+      }
+      return ready;
+    }
+
+    const state = this.getTraceState(traceId);
+    const parentSpanId = span.parentSpanId!;
+    const parent = state.resolved.get(parentSpanId);
+    if (parent) {
+      this.resolve(state, pending, parent, ready);
+    } else {
+      const siblings = state.waiting.get(parentSpanId) || [];
+      siblings.push(pending);
+      state.waiting.set(parentSpanId, siblings);
+      this.pendingCount++;
+      this.enforceLimit(ready);
+    }
+    return ready;
+  }
+
+  /**
+   * Release every held span with its original parent. Used on flush and shutdown.
+   */
+  drain(): FilteredSpan[] {
+    const ready: FilteredSpan[] = [];
+    for (const [traceId, state] of this.traces) {
+      ready.push(...this.releaseTrace(traceId, state));
+    }
+    return ready;
+  }
+
+  /**
+   * Resolve a span whose parent outcome is known, then its waiting children.
+   */
+  private resolve(state: TraceFilterState, pending: PendingSpan, parent: ResolvedSpan, ready: FilteredSpan[]): void {
+    const spanId = pending.span.spanContext().spanId;
+    const keep = pending.keep && !parent.dropSubtree;
+    const resolved: ResolvedSpan = keep
+      ? { attachTo: spanId, attachToTraceRoot: isTraceRoot(pending.span, pending.metadata), dropSubtree: false }
+      : {
+          attachTo: parent.attachTo,
+          attachToTraceRoot: parent.attachToTraceRoot,
+          dropSubtree: parent.dropSubtree || this.options?.orphans === 'drop',
+        };
+    state.resolved.set(spanId, resolved);
+
+    if (keep) {
+      ready.push({
+        span: pending.span,
+        metadata: pending.metadata,
+        parentSpanId: parent.attachTo,
+        parentIsTraceRoot: parent.attachToTraceRoot,
+      });
+    }
+
+    const children = state.waiting.get(spanId);
+    if (children) {
+      state.waiting.delete(spanId);
+      this.pendingCount -= children.length;
+      for (const child of children) {
+        this.resolve(state, child, resolved, ready);
+      }
+    }
+  }
+
+  /**
+   * Forget a trace, releasing its waiting spans with their original parents.
+   */
+  private releaseTrace(traceId: string, state: TraceFilterState): FilteredSpan[] {
+    const ready: FilteredSpan[] = [];
+    for (const children of state.waiting.values()) {
+      this.pendingCount -= children.length;
+      for (const child of children) {
+        if (child.keep) {
+          ready.push({ span: child.span, metadata: child.metadata, ...originalParent(child.span, child.metadata) });
+        }
+      }
+    }
+    this.traces.delete(traceId);
+    return ready;
+  }
+
+  /**
+   * Remember the outcomes of a trace whose root was exported, forgetting the
+   * oldest trace when too many are remembered.
+   */
+  private rememberDecided(traceId: string, state: TraceFilterState): void {
+    if (this.decided.size >= MAX_DECIDED_TRACES) {
+      this.decided.delete(this.decided.keys().next().value!);
+    }
+    this.decided.set(traceId, { resolved: state.resolved, waiting: new Map() });
+  }
+
+  /**
+   * Evict the oldest traces while too many spans are held back.
+   */
+  private enforceLimit(ready: FilteredSpan[]): void {
+    const maxPending = this.options?.maxPendingSpans ?? 10000;
+    for (const [traceId, state] of this.traces) {
+      if (this.pendingCount <= maxPending) break;
+      ready.push(...this.releaseTrace(traceId, state));
+    }
+  }
+
+  private getTraceState(traceId: string): TraceFilterState {
+    let state = this.traces.get(traceId);
+    if (!state) {
+      state = newTraceState();
+      this.traces.set(traceId, state);
+    }
+    return state;
+  }
+}
+
+function newTraceState(): TraceFilterState {
+  return { resolved: new Map(), waiting: new Map() };
+}
+
+function parentOf(span: ReadableSpan): string | undefined {
+  return span.parentSpanId && span.parentSpanId !== INVALID_SPAN_ID ? span.parentSpanId : undefined;
+}
+
+/**
+ * Whether the span is the outermost span of its trace. Genkit marks the
+ * first Genkit span of a trace as root, even when it has a parent span
+ * from other instrumentation such as an HTTP server.
+ */
+export function isTraceRoot(span: ReadableSpan, metadata: ExtractedMetadata): boolean {
+  return Boolean(metadata.isRoot) || !parentOf(span);
+}
+
+/**
+ * Parent of a span that is exported with its original parent. Genkit paths
+ * list every action from the root, so spans whose path has two segments sit
+ * directly below the trace root.
+ */
+function originalParent(span: ReadableSpan, metadata: ExtractedMetadata): Omit<FilteredSpan, 'span' | 'metadata'> {
+  const parentSpanId = parentOf(span);
+  const depth = metadata.path?.match(/\{[^}]*\}/g)?.length;
+  return { parentSpanId, parentIsTraceRoot: Boolean(parentSpanId) && depth === 2 };
+}
+
+function ruleMatches(rule: SpanFilterRule, data: SpanData): boolean {
+  if (rule.flowName !== undefined && !matchesAny(rule.flowName, [data.flowName])) {
+    return false;
+  }
+  if (rule.spanType !== undefined && !matchesAny(rule.spanType, [data.spanType, data.subtype])) {
+    return false;
+  }
+  if (rule.path !== undefined && !(data.path && globToRegExp(rule.path).test(data.path))) {
+    return false;
+  }
+  if (rule.isRoot !== undefined && rule.isRoot !== Boolean(data.isRoot)) {
+    return false;
+  }
+  if (rule.isError !== undefined && rule.isError !== Boolean(data.isError)) {
+    return false;
+  }
+  return true;
+}
+
+function matchesAny(expected: string | string[], actual: Array<string | undefined>): boolean {
+  const values = Array.isArray(expected) ? expected : [expected];
+  return actual.some(value => value !== undefined && values.includes(value));
+}
+
+/**
+ * Convert a path glob into a regular expression. `*` and `?` stay within a
+ * path segment, `**` spans segments; every other character is literal.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      pattern += '.*';
+      i++;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Deterministic sampling by trace ID so every span of a trace gets the same decision.
+ */
+export function isSampled(key: string, rate: number): boolean {
+  if (rate >= 1) return true;
+  if (rate <= 0) return false;
+
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000 < rate;
+}
@@ -0,0 +1,26 @@
+import type { Context } from '@opentelemetry/api';
+import { BatchSpanProcessor, type Span } from '@opentelemetry/sdk-trace-base';
+import { getActivePromptReference, PROMPT_NAME_ATTRIBUTE, PROMPT_VERSION_ATTRIBUTE } from './prompts.js';
+import { getLangfuseContext, setTraceContextAttributes } from './trace-context.js';
+
+/**
+ * Batch span processor that records Langfuse context on spans as they start.
+ *
+ * Genkit only sets its own attributes when a span ends, so context that is
+ * active while the span runs has to be captured here.
+ */
+export class LangfuseSpanProcessor extends BatchSpanProcessor {
+  override onStart(span: Span, parentContext: Context): void {
+    const prompt = getActivePromptReference();
+    // Generations rendered from a fallback template have no prompt version to link to
+    if (prompt && !prompt.isFallback) {
+      span.setAttribute(PROMPT_NAME_ATTRIBUTE, prompt.name);
+      span.setAttribute(PROMPT_VERSION_ATTRIBUTE, prompt.version);
+    }
+    const context = getLangfuseContext();
+    if (context) {
+      setTraceContextAttributes(span, context);
+    }
+    super.onStart(span, parentContext);
+  }
+}
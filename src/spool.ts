@@ -0,0 +1,423 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LangfuseConfigError } from './config.js';
+import { PluginLogger } from './logger.js';
+import type { IngestionEvent, SpoolOptions } from './types.js';
+
+/**
+ * Where spooled events are delivered.
+ */
+export interface SpoolTransport {
+  /** Hand an event to the Langfuse client */
+  send(event: IngestionEvent): void;
+
+  /** Flush the Langfuse client */
+  flush(): Promise<void>;
+}
+
+/**
+ * Delivery state of all records sharing a key within a segment.
+ */
+interface PendingRecord {
+  /** Number of records waiting for a delivery result */
+  count: number;
+  /** Whether the last delivery attempt failed */
+  failed: boolean;
+}
+
+/**
+ * An append-only JSONL file holding spooled events.
+ */
+interface Segment {
+  file: string;
+  bytes: number;
+  pending: Map<string, PendingRecord>;
+}
+
+const SEGMENT_PATTERN = /^segment-\d+-\d+\.jsonl$/;
+
+/** Holds the ID of the process that owns the spool directory */
+const LOCK_FILE = 'spool.lock';
+
+/** Lock files held by spools of this process */
+const heldLocks = new Set<string>();
+
+/**
+ * Durable on-disk queue for Langfuse ingestion events.
+ *
+ * Every event is appended to the active segment before it is handed to the
+ * Langfuse client. Delivered events are recorded in a `.ack` file next to
+ * their segment, and segments whose events have all been delivered are
+ * deleted. Events that failed, or that were left behind by a previous
+ * process, are redelivered with exponential backoff. Delivery is at least once; Langfuse upserts
+ * events by ID, so duplicates are harmless.
+ *
+ * A lock file gives one spool at a time ownership of the directory, so that
+ * two processes never replay or delete each other's segments. The lock of a
+ * process that has exited is taken over.
+ */
+export class ExportSpool {
+  private readonly options: Required<SpoolOptions>;
+  private readonly transport: SpoolTransport;
+  private readonly logger: PluginLogger;
+  private readonly segments: Segment[] = [];
+  private active?: Segment;
+  private sequence = 0;
+  private attempt = 0;
+  private retryTimer?: NodeJS.Timeout;
+  private closed = false;
+  private lockFile?: string;
+
+  constructor(options: SpoolOptions, transport: SpoolTransport, logger: PluginLogger = new PluginLogger()) {
+    this.options = {
+      maxSegmentBytes: 4 * 1024 * 1024,
+      maxTotalBytes: 64 * 1024 * 1024,
+      retryInitialDelayMillis: 1000,
+      retryMaxDelayMillis: 60000,
+      ...options,
+    };
+    this.transport = transport;
+    this.logger = logger;
+
+    fs.mkdirSync(this.options.directory, { recursive: true });
+    this.acquireLock();
+    this.loadSegments();
+  }
+
+  /**
+   * Number of events not yet confirmed as delivered.
+   */
+  get pendingEvents(): number {
+    let count = 0;
+    for (const segment of this.segments) {
+      for (const record of segment.pending.values()) {
+        count += record.count;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Total size of all segments in bytes.
+   */
+  get totalBytes(): number {
+    return this.segments.reduce((total, segment) => total + segment.bytes, 0);
+  }
+
+  /**
+   * Persist an event before it is sent.
+   */
+  append(event: IngestionEvent): void {
+    const line = JSON.stringify({ ...event, spooledAt: new Date().toISOString() }) + '\n';
+    const bytes = Buffer.byteLength(line);
+
+    if (this.active && this.active.bytes > 0 && this.active.bytes + bytes > this.options.maxSegmentBytes) {
+      this.active = undefined;
+    }
+    this.enforceTotalSize(bytes);
+
+    if (!this.active) {
+      this.active = this.createSegment();
+    }
+    fs.appendFileSync(this.active.file, line);
+    this.active.bytes += bytes;
+
+    const key = recordKey(event);
+    const record = this.active.pending.get(key);
+    if (record) {
+      record.count++;
+    } else {
+      this.active.pending.set(key, { count: 1, failed: false });
+    }
+  }
+
+  /**
+   * Record the outcome of a Langfuse flush.
+   *
+   * @param events Events contained in the flushed batch
+   * @param error Delivery error, if the batch failed
+   */
+  acknowledge(events: IngestionEvent[], error?: unknown): void {
+    const delivered = new Map<Segment, string[]>();
+    for (const event of events) {
+      const key = recordKey(event);
+      const segment = this.segments.find(candidate => candidate.pending.has(key));
+      if (!segment) continue;
+
+      const record = segment.pending.get(key)!;
+      if (error) {
+        record.failed = true;
+        continue;
+      }
+      if (--record.count <= 0) {
+        segment.pending.delete(key);
+      }
+      delivered.set(segment, [...(delivered.get(segment) || []), key]);
+    }
+    this.removeDeliveredSegments();
+
+    for (const [segment, keys] of delivered) {
+      if (!this.segments.includes(segment)) continue;
+      try {
+        fs.appendFileSync(ackFile(segment), keys.join('\n') + '\n');
+      } catch (ackError) {
+        this.logger.error('Failed to record delivered Langfuse events', { file: ackFile(segment), error: ackError });
+      }
+    }
+
+    if (error) {
+      this.scheduleRetry();
+    } else if (!this.hasFailedRecords()) {
+      this.attempt = 0;
+    }
+  }
+
+  /**
+   * Resend events that failed or were left behind by a previous process.
+   *
+   * @returns Number of events resent
+   */
+  async replay(): Promise<number> {
+    let resent = 0;
+
+    for (const segment of [...this.segments]) {
+      const failedKeys = new Set(
+        Array.from(segment.pending.entries())
+          .filter(([, record]) => record.failed)
+          .map(([key]) => key)
+      );
+      if (failedKeys.size === 0) continue;
+
+      const counts = new Map<string, number>();
+      for (const event of readSegment(segment.file)) {
+        const key = recordKey(event);
+        if (!failedKeys.has(key)) continue;
+        this.transport.send(event);
+        counts.set(key, (counts.get(key) || 0) + 1);
+        resent++;
+      }
+
+      for (const key of failedKeys) {
+        const count = counts.get(key) || 0;
+        if (count > 0) {
+          segment.pending.set(key, { count, failed: false });
+        } else {
+          segment.pending.delete(key);
+        }
+      }
+    }
+    this.removeDeliveredSegments();
+
+    if (resent > 0) {
+      await this.transport.flush();
+    }
+    return resent;
+  }
+
+  /**
+   * Stop redelivery and release the directory. Undelivered events stay on
+   * disk for the next process.
+   */
+  close(): void {
+    this.closed = true;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = undefined;
+    }
+    if (this.lockFile) {
+      fs.rmSync(this.lockFile, { force: true });
+      heldLocks.delete(this.lockFile);
+      this.lockFile = undefined;
+    }
+  }
+
+  /**
+   * Take ownership of the spool directory.
+   *
+   * @throws LangfuseConfigError if a running spool owns the directory
+   */
+  private acquireLock(): void {
+    const file = path.resolve(this.options.directory, LOCK_FILE);
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        fs.writeFileSync(file, String(process.pid), { flag: 'wx' });
+        heldLocks.add(file);
+        this.lockFile = file;
+        return;
+      } catch (error: unknown) {
+        if (errorCode(error) !== 'EEXIST') throw error;
+      }
+
+      const owner = Number(readLines(file)[0]);
+      // A lock with this process's ID not held here was left by an earlier process with the same ID
+      if (owner === process.pid ? heldLocks.has(file) : isRunning(owner)) {
+        throw new LangfuseConfigError([{
+          field: 'spool.directory',
+          message: `${this.options.directory} is in use by process ${owner}; use one directory per process`,
+        }]);
+      }
+      this.logger.info('Taking over Langfuse spool of an exited process', { directory: this.options.directory, owner });
+      fs.rmSync(file, { force: true });
+    }
+    throw new LangfuseConfigError([{
+      field: 'spool.directory',
+      message: `Could not lock ${this.options.directory}`,
+    }]);
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer || this.closed) return;
+
+    const delay = Math.min(
+      this.options.retryInitialDelayMillis * 2 ** this.attempt,
+      this.options.retryMaxDelayMillis
+    );
+    this.attempt++;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      this.replay().catch(error => {
+        this.logger.error('Failed to redeliver spooled Langfuse events', { error });
+        this.scheduleRetry();
+      });
+    }, delay);
+    this.retryTimer.unref?.();
+  }
+
+  private hasFailedRecords(): boolean {
+    return this.segments.some(segment =>
+      Array.from(segment.pending.values()).some(record => record.failed)
+    );
+  }
+
+  /**
+   * Load segments left behind by a previous process; their unacknowledged events count as failed.
+   */
+  private loadSegments(): void {
+    const files = fs.readdirSync(this.options.directory)
+      .filter(file => SEGMENT_PATTERN.test(file))
+      .sort();
+
+    for (const name of files) {
+      const file = path.join(this.options.directory, name);
+      const segment: Segment = { file, bytes: fs.statSync(file).size, pending: new Map() };
+      for (const event of readSegment(file)) {
+        const key = recordKey(event);
+        const record = segment.pending.get(key);
+        segment.pending.set(key, { count: (record?.count || 0) + 1, failed: true });
+      }
+      for (const key of readLines(ackFile(segment))) {
+        const record = segment.pending.get(key);
+        if (record && --record.count <= 0) {
+          segment.pending.delete(key);
+        }
+      }
+      this.segments.push(segment);
+    }
+    this.removeDeliveredSegments();
+  }
+
+  private createSegment(): Segment {
+    const name = `segment-${String(Date.now()).padStart(15, '0')}-${String(this.sequence++).padStart(6, '0')}.jsonl`;
+    const segment: Segment = {
+      file: path.join(this.options.directory, name),
+      bytes: 0,
+      pending: new Map(),
+    };
+    this.segments.push(segment);
+    return segment;
+  }
+
+  /**
+   * Discard the oldest segments until the incoming bytes fit.
+   */
+  private enforceTotalSize(incomingBytes: number): void {
+    while (this.segments.length > 0 && this.totalBytes + incomingBytes > this.options.maxTotalBytes) {
+      const oldest = this.segments[0];
+      if (oldest === this.active) break;
+      this.logger.warn(`Langfuse spool is full, discarding ${this.countPending(oldest)} undelivered events`, {
+        file: oldest.file,
+      });
+      this.deleteSegment(oldest);
+    }
+  }
+
+  private removeDeliveredSegments(): void {
+    for (const segment of [...this.segments]) {
+      if (segment.pending.size === 0) {
+        this.deleteSegment(segment);
+      }
+    }
+  }
+
+  private deleteSegment(segment: Segment): void {
+    this.segments.splice(this.segments.indexOf(segment), 1);
+    if (segment === this.active) {
+      this.active = undefined;
+    }
+    for (const file of [segment.file, ackFile(segment)]) {
+      try {
+        fs.unlinkSync(file);
+      } catch (error: unknown) {
+        if (errorCode(error) !== 'ENOENT') {
+          this.logger.error('Failed to delete Langfuse spool file', { file, error });
+        }
+      }
+    }
+  }
+
+  private countPending(segment: Segment): number {
+    return Array.from(segment.pending.values()).reduce((total, record) => total + record.count, 0);
+  }
+}
+
+function recordKey(event: IngestionEvent): string {
+  return `${event.type}:${event.body?.id}`;
+}
+
+function errorCode(error: unknown): string | undefined {
+  return (error as NodeJS.ErrnoException | undefined)?.code;
+}
+
+/**
+ * Whether a process with the given ID exists. Signal 0 only checks for it.
+ */
+function isRunning(pid: number): boolean {
+  if (!Number.isInteger(pid) || pid <= 0) return false;
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: unknown) {
+    return errorCode(error) === 'EPERM';
+  }
+}
+
+function ackFile(segment: Segment): string {
+  return `${segment.file}.ack`;
+}
+
+function readLines(file: string): string[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(file, 'utf8');
+  } catch (error: unknown) {
+    if (errorCode(error) === 'ENOENT') return [];
+    throw error;
+  }
+  return content.split('\n').filter(line => line.trim());
+}
+
+/**
+ * Read the events of a segment, skipping lines torn by a crash.
+ */
+function readSegment(file: string): IngestionEvent[] {
+  const events: IngestionEvent[] = [];
+  for (const line of readLines(file)) {
+    try {
+      const { type, body } = JSON.parse(line);
+      events.push({ type, body });
+    } catch {
+      // Partially written line
+    }
+  }
+  return events;
+}
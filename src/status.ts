@@ -0,0 +1,52 @@
+import { SpanStatusCode } from '@opentelemetry/api';
+import type { ReadableSpan } from '@opentelemetry/sdk-trace-base';
+
+/**
+ * Langfuse level and status message of a failed span.
+ */
+export interface SpanError {
+  level: 'ERROR';
+  statusMessage: string;
+}
+
+const MAX_STACK_LINES = 10;
+const MAX_STACK_LENGTH = 2000;
+
+/**
+ * Extract the error of a failed span from its OpenTelemetry status,
+ * `exception` events and Genkit state.
+ *
+ * @returns `undefined` when the span succeeded
+ */
+export function extractSpanError(span: ReadableSpan, state?: string): SpanError | undefined {
+  const exception = [...(span.events || [])].reverse().find(event => event.name === 'exception');
+  const failed = span.status?.code === SpanStatusCode.ERROR || state === 'error' || exception !== undefined;
+  if (!failed) return undefined;
+
+  const type = exception?.attributes?.['exception.type'] as string | undefined;
+  const message = (exception?.attributes?.['exception.message'] as string | undefined) || span.status?.message;
+  const header = type && message && !message.startsWith(type) ? `${type}: ${message}` : message || type || 'Span failed';
+
+  const stack = exception?.attributes?.['exception.stacktrace'] as string | undefined;
+  return {
+    level: 'ERROR',
+    statusMessage: stack ? `${header}\n${truncateStack(stack, header)}` : header,
+  };
+}
+
+/**
+ * Keep the first frames of a stack trace, without the message line that
+ * repeats the header.
+ */
+function truncateStack(stack: string, header: string): string {
+  let lines = stack.split('\n');
+  if (lines[0] && header.includes(lines[0].trim())) {
+    lines = lines.slice(1);
+  }
+  const frames = lines.slice(0, MAX_STACK_LINES);
+  if (lines.length > MAX_STACK_LINES) {
+    frames.push(`    ... ${lines.length - MAX_STACK_LINES} more`);
+  }
+  const truncated = frames.join('\n');
+  return truncated.length > MAX_STACK_LENGTH ? `${truncated.slice(0, MAX_STACK_LENGTH)}…` : truncated;
+}
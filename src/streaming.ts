@@ -0,0 +1,99 @@
+import { trace, type Span } from '@opentelemetry/api';
+import type { ModelMiddleware } from 'genkit/model';
+
+/** Span attribute holding the time of the first streamed chunk, in epoch milliseconds */
+export const FIRST_CHUNK_TIME_ATTRIBUTE = 'langfuse.stream.first_chunk_time';
+
+/** Span attribute holding the time of the last streamed chunk, in epoch milliseconds */
+export const LAST_CHUNK_TIME_ATTRIBUTE = 'langfuse.stream.last_chunk_time';
+
+/** Span attribute holding the number of streamed chunks */
+export const CHUNK_COUNT_ATTRIBUTE = 'langfuse.stream.chunk_count';
+
+const chunkCounts = new WeakMap<Span, number>();
+
+/** Whether a chunk is being delivered through a tracked callback */
+let deliveringChunk = false;
+
+/**
+ * Wrap a Genkit streaming callback so the generation records its
+ * time to first token, chunk count and streaming duration.
+ *
+ * Genkit invokes the callback while the model call is running, so the
+ * chunks are recorded on the model span. A chunk passed on from one tracked
+ * callback to another, e.g. with `recordStreaming()` on the model, is
+ * recorded once.
+ *
+ * @example
+ * ```typescript
+ * const { text } = await ai.generate({
+ *   prompt: 'Tell me a story',
+ *   onChunk: trackStreaming((chunk) => process.stdout.write(chunk.text)),
+ * });
+ * ```
+ */
+export function trackStreaming<T>(onChunk?: (chunk: T) => void): (chunk: T) => void {
+  return (chunk: T) => {
+    if (deliveringChunk) {
+      onChunk?.(chunk);
+      return;
+    }
+    deliveringChunk = true;
+    try {
+      recordChunk();
+      onChunk?.(chunk);
+    } finally {
+      deliveringChunk = false;
+    }
+  };
+}
+
+/**
+ * Model middleware that records the time to first token, chunk count and
+ * streaming duration of every streamed call of a model, whether it comes
+ * from `generate()`, `generateStream()`, `prompt.stream()`,
+ * `chat.sendStream()` or a streaming flow.
+ *
+ * The middleware wraps the streaming callback the model action receives,
+ * which the model calls while its span is active. It only sees the
+ * callback in the model's own `use`; middleware passed to a single
+ * `generate()` call is not given one.
+ *
+ * @example
+ * ```typescript
+ * ai.defineModel({ name: 'custom/storyteller', use: [recordStreaming()] }, runModel);
+ * ```
+ */
+export function recordStreaming(): ModelMiddleware {
+  const middleware = (
+    request: ModelRequest,
+    options: ModelRunOptions | undefined,
+    next: (request?: ModelRequest, options?: ModelRunOptions) => Promise<ModelResponse>
+  ) => next(request, options?.onChunk ? { ...options, onChunk: trackStreaming(options.onChunk) } : options);
+  // Genkit passes the run options to model middleware taking three arguments
+  return middleware as unknown as ModelMiddleware;
+}
+
+type ModelRequest = Parameters<ModelMiddleware>[0];
+type ModelResponse = Awaited<ReturnType<ModelMiddleware>>;
+
+interface ModelRunOptions {
+  onChunk?: (chunk: unknown) => void;
+  [option: string]: unknown;
+}
+
+/**
+ * Record a streamed chunk on the active span.
+ */
+export function recordChunk(time: number = Date.now()): void {
+  const span = trace.getActiveSpan();
+  if (!span?.isRecording()) return;
+
+  const count = (chunkCounts.get(span) || 0) + 1;
+  chunkCounts.set(span, count);
+  if (count === 1) {
+    span.setAttribute(FIRST_CHUNK_TIME_ATTRIBUTE, time);
+  }
+  span.setAttribute(LAST_CHUNK_TIME_ATTRIBUTE, time);
+  span.setAttribute(CHUNK_COUNT_ATTRIBUTE, count);
+}
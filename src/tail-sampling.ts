@@ -0,0 +1,170 @@
+import { hrTimeToMilliseconds } from '@opentelemetry/core';
+import type { ReadableSpan } from '@opentelemetry/sdk-trace-base';
+import type { ExtractedMetadata } from './metadata-extractor.js';
+import { isSampled, SpanFilter } from './span-filter.js';
+import type { TailSamplingOptions, TailSamplingReason } from './types.js';
+
+/** Traces whose decision is remembered for spans ending after it was made */
+const MAX_DECISIONS = 10000;
+
+/**
+ * A span released by the sampler.
+ */
+export interface SampledSpan {
+  span: ReadableSpan;
+  metadata: ExtractedMetadata;
+}
+
+/**
+ * Spans of a trace whose root has not ended yet.
+ */
+interface BufferedTrace {
+  spans: SampledSpan[];
+  bufferedAt: number;
+  hasError: boolean;
+  cost: number;
+}
+
+/**
+ * Trace-aware sampler that keeps or drops whole traces.
+ *
+ * Spans are buffered per trace until the root span ends, then the trace is
+ * kept if it failed, was slow or expensive, or is sampled by trace ID. Traces
+ * that exceed the buffer limits are decided early from the spans seen so
+ * far; spans of a decided trace that end later follow the decision. Kept
+ * root spans carry the reason in `metadata.sampling`.
+ */
+export class TailSampler {
+  private readonly options?: TailSamplingOptions;
+  private readonly costOf: (span: ReadableSpan, metadata: ExtractedMetadata) => number;
+  private readonly now: () => number;
+  private readonly traces = new Map<string, BufferedTrace>();
+  private readonly decisions = new Map<string, TailSamplingReason | null>();
+  private bufferedCount = 0;
+
+  /**
+   * @param costOf Cost of a span in USD, for the cost threshold
+   * @param now Clock for the buffer age limit
+   */
+  constructor(
+    options?: TailSamplingOptions,
+    costOf: (span: ReadableSpan, metadata: ExtractedMetadata) => number = () => 0,
+    now: () => number = Date.now
+  ) {
+    this.options = options;
+    this.costOf = costOf;
+    this.now = now;
+  }
+
+  /**
+   * Whether tail sampling is configured.
+   */
+  get enabled(): boolean {
+    return Boolean(this.options);
+  }
+
+  /**
+   * Number of spans currently buffered waiting for their root.
+   */
+  get bufferedSpans(): number {
+    return this.bufferedCount;
+  }
+
+  /**
+   * Accept an ended span and return the spans of kept traces that are
+   * ready to export.
+   */
+  accept(span: ReadableSpan, metadata: ExtractedMetadata): SampledSpan[] {
+    if (!this.options) {
+      return [{ span, metadata }];
+    }
+
+    const data = SpanFilter.toSpanData(span, metadata);
+    const traceId = data.traceId!;
+    const decision = this.decisions.get(traceId);
+    if (decision !== undefined) {
+      return decision ? [withSampling({ span, metadata }, decision)] : [];
+    }
+
+    let trace = this.traces.get(traceId);
+    if (!trace) {
+      trace = { spans: [], bufferedAt: this.now(), hasError: false, cost: 0 };
+      this.traces.set(traceId, trace);
+    }
+    trace.spans.push({ span, metadata });
+    trace.hasError = trace.hasError || Boolean(data.isError);
+    trace.cost += this.costOf(span, metadata);
+    this.bufferedCount++;
+
+    if (data.isRoot) {
+      const latencyMillis = hrTimeToMilliseconds(span.endTime) - hrTimeToMilliseconds(span.startTime);
+      return this.decide(traceId, trace, latencyMillis);
+    }
+    return this.enforceLimits();
+  }
+
+  /**
+   * Decide every buffered trace from the spans seen so far. Used on flush
+   * and shutdown.
+   */
+  drain(): SampledSpan[] {
+    const ready: SampledSpan[] = [];
+    for (const [traceId, trace] of this.traces) {
+      ready.push(...this.decide(traceId, trace));
+    }
+    return ready;
+  }
+
+  /**
+   * Keep or drop a buffered trace and release its spans if kept.
+   *
+   * @param latencyMillis Duration of the root span, once it has ended
+   */
+  private decide(traceId: string, trace: BufferedTrace, latencyMillis?: number): SampledSpan[] {
+    const reason = this.keepReason(traceId, trace, latencyMillis);
+    this.traces.delete(traceId);
+    this.bufferedCount -= trace.spans.length;
+
+    if (this.decisions.size >= MAX_DECISIONS) {
+      this.decisions.delete(this.decisions.keys().next().value!);
+    }
+    this.decisions.set(traceId, reason);
+    return reason ? trace.spans.map(sampled => withSampling(sampled, reason)) : [];
+  }
+
+  private keepReason(traceId: string, trace: BufferedTrace, latencyMillis?: number): TailSamplingReason | null {
+    const options = this.options!;
+    if (trace.hasError && options.keepErrors !== false) return 'error';
+    if (options.latencyThresholdMillis !== undefined && latencyMillis !== undefined &&
+      latencyMillis >= options.latencyThresholdMillis) {
+      return 'latency';
+    }
+    if (options.costThreshold !== undefined && trace.cost >= options.costThreshold) return 'cost';
+    return isSampled(traceId, options.sampleRate ?? 1) ? 'sampled' : null;
+  }
+
+  /**
+   * Decide the oldest traces early while too many spans are buffered or
+   * they have been buffered too long.
+   */
+  private enforceLimits(): SampledSpan[] {
+    const maxBuffered = this.options!.maxBufferedSpans ?? 10000;
+    const oldest = this.now() - (this.options!.maxTraceAgeMillis ?? 300000);
+    const ready: SampledSpan[] = [];
+    for (const [traceId, trace] of this.traces) {
+      if (this.bufferedCount <= maxBuffered && trace.bufferedAt > oldest) break;
+      ready.push(...this.decide(traceId, trace));
+    }
+    return ready;
+  }
+}
+
+/**
+ * Record the sampling reason on root spans, for the trace metadata.
+ */
+function withSampling(sampled: SampledSpan, reason: TailSamplingReason): SampledSpan {
+  const { span, metadata } = sampled;
+  return SpanFilter.toSpanData(span, metadata).isRoot
+    ? { span, metadata: { ...metadata, sampling: reason } }
+    : sampled;
+}
@@ -1,7 +1,11 @@
-import { Resource } from '@opentelemetry/resources';
-import { BatchSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { envDetectorSync, Resource } from '@opentelemetry/resources';
 import type { TelemetryConfig } from 'genkit';
 import { LangfuseExporter } from './exporter.js';
+import { RoutingExporter } from './routing.js';
+import { PluginLogger } from './logger.js';
+import { LangfuseSpanProcessor } from './span-processor.js';
+import { setDefaultScoreTarget } from './scores.js';
+import { resolveConfig } from './config.js';
 import type { LangfuseConfig } from './types.js';
 
 /**
@@ -9,11 +13,13 @@ import type { LangfuseConfig } from './types.js';
  */
 export class LangfuseTelemetryProvider {
   private config: LangfuseConfig;
-  private exporter?: LangfuseExporter;
+  private logger: PluginLogger;
+  private exporter?: LangfuseExporter | RoutingExporter;
 
-  constructor(config: LangfuseConfig) {
-    this.config = config;
-    this.validateConfig();
+  constructor(config: Partial<LangfuseConfig> = {}) {
+    this.config = resolveConfig(config);
+    this.applyDefaults();
+    this.logger = PluginLogger.fromConfig(config);
   }
 
   /**
@@ -26,13 +32,11 @@ export class LangfuseTelemetryProvider {
       instrumentations: [],
     };
     
-    if (this.config.debug) {
-      console.log('🔧 [DEBUG] Telemetry config created:', {
-        resourceAttributes: config.resource.attributes,
-        spanProcessorCount: config.spanProcessors.length,
-        instrumentationCount: config.instrumentations.length,
-      });
-    }
+    this.logger.debug('Telemetry config created', {
+      resourceAttributes: config.resource.attributes,
+      spanProcessorCount: config.spanProcessors.length,
+      instrumentationCount: config.instrumentations.length,
+    });
     
     return config;
   }
@@ -57,52 +61,74 @@ export class LangfuseTelemetryProvider {
 
   /**
    * Create OpenTelemetry resource with Langfuse-specific attributes.
+   * 
+   * `OTEL_SERVICE_NAME` and `OTEL_RESOURCE_ATTRIBUTES` override the npm
+   * package defaults, and explicit options override both.
    */
   private createResource(): Resource {
-    return new Resource({
-      'service.name': 'genkit-langfuse',
-      'service.version': '1.0.0',
+    const defaults = new Resource({
+      'service.name': process.env.npm_package_name || 'genkit-langfuse',
+      ...(process.env.npm_package_version ? { 'service.version': process.env.npm_package_version } : {}),
       'genkit.plugin': '@genkit-ai/langfuse',
       'langfuse.version': this.getLangfuseVersion(),
     });
+    
+    const configured = new Resource({
+      ...(this.config.serviceName ? { 'service.name': this.config.serviceName } : {}),
+      ...(this.config.version ? { 'service.version': this.config.version } : {}),
+      ...(this.config.environment ? { 'deployment.environment.name': this.config.environment } : {}),
+    });
+    
+    return defaults.merge(envDetectorSync.detect()).merge(configured);
   }
 
   /**
    * Create the span processor with Langfuse exporter.
    */
-  private createSpanProcessor(): BatchSpanProcessor {
-    this.exporter = new LangfuseExporter(this.config);
+  private createSpanProcessor(): LangfuseSpanProcessor {
+    this.exporter = this.config.routing?.length
+      ? new RoutingExporter(this.config, this.logger)
+      : new LangfuseExporter(this.config, this.logger);
+    setDefaultScoreTarget(this.exporter);
     
     // Configure for development vs production following Genkit patterns
     const isDevelopment = this.config.forceDevExport || process.env.NODE_ENV === 'development';
     
-    const processor = new BatchSpanProcessor(this.exporter, {
+    const processor = new LangfuseSpanProcessor(this.exporter, {
       maxExportBatchSize: isDevelopment ? (this.config.flushAt || 1) : (this.config.flushAt || 20),
       scheduledDelayMillis: isDevelopment ? (this.config.flushInterval || 1000) : (this.config.flushInterval || 10000),
       exportTimeoutMillis: this.config.exportTimeoutMillis || 30000,
       maxQueueSize: this.config.maxQueueSize || 1000,
     });
     
-    if (this.config.debug) {
-      console.log('🔧 [DEBUG] BatchSpanProcessor created with config:', {
-        isDevelopment,
-        maxExportBatchSize: processor['_maxExportBatchSize'] || (isDevelopment ? 1 : 20),
-        scheduledDelayMillis: processor['_scheduledDelayMillis'] || (isDevelopment ? 1000 : 10000),
-        exportTimeoutMillis: this.config.exportTimeoutMillis || 30000,
-        maxQueueSize: this.config.maxQueueSize || 1000,
-      });
+    this.logger.debug('Span processor created', {
+      isDevelopment,
+      maxExportBatchSize: processor['_maxExportBatchSize'] || (isDevelopment ? 1 : 20),
+      scheduledDelayMillis: processor['_scheduledDelayMillis'] || (isDevelopment ? 1000 : 10000),
+      exportTimeoutMillis: this.config.exportTimeoutMillis || 30000,
+      maxQueueSize: this.config.maxQueueSize || 1000,
+    });
+    
+    if (this.logger.isEnabled('trace')) {
+      const logger = this.logger;
       
-      // Wrap processor methods to debug span activity
+      // Wrap processor methods to trace span activity
       const originalOnStart = processor.onStart;
       const originalOnEnd = processor.onEnd;
       
       processor.onStart = function(span, parentContext) {
-        console.log(`🔥 [DEBUG] Span started: ${span.name} (${span.spanContext().spanId})`);
+        logger.trace(`Span started: ${span.name}`, {
+          traceId: span.spanContext().traceId,
+          spanId: span.spanContext().spanId,
+        });
         return originalOnStart.call(this, span, parentContext);
       };
       
       processor.onEnd = function(span) {
-        console.log(`🏁 [DEBUG] Span ended: ${span.name} (${span.spanContext().spanId})`);
+        logger.trace(`Span ended: ${span.name}`, {
+          traceId: span.spanContext().traceId,
+          spanId: span.spanContext().spanId,
+        });
         return originalOnEnd.call(this, span);
       };
     }
@@ -111,16 +137,9 @@ export class LangfuseTelemetryProvider {
   }
 
   /**
-   * Validate the configuration.
+   * Apply defaults to the validated configuration.
    */
-  private validateConfig(): void {
-    if (!this.config.secretKey) {
-      throw new Error('Langfuse secret key is required');
-    }
-    if (!this.config.publicKey) {
-      throw new Error('Langfuse public key is required');
-    }
-
+  private applyDefaults(): void {
     // Set defaults following Genkit patterns
     const isDevelopment = this.config.forceDevExport || process.env.NODE_ENV === 'development';
     
@@ -0,0 +1,99 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Span } from '@opentelemetry/sdk-trace-base';
+import type { LangfuseTraceContext } from './types.js';
+
+/** Span attribute holding the Langfuse user ID */
+export const USER_ID_ATTRIBUTE = 'langfuse.user.id';
+
+/** Span attribute holding the Langfuse session ID */
+export const SESSION_ID_ATTRIBUTE = 'langfuse.session.id';
+
+/** Span attribute holding the Langfuse trace tags */
+export const TRACE_TAGS_ATTRIBUTE = 'langfuse.trace.tags';
+
+/** Span attribute holding the Langfuse trace metadata as JSON */
+export const TRACE_METADATA_ATTRIBUTE = 'langfuse.trace.metadata';
+
+/** Span attribute holding the Langfuse trace name */
+export const TRACE_NAME_ATTRIBUTE = 'langfuse.trace.name';
+
+const activeContext = new AsyncLocalStorage<LangfuseTraceContext>();
+
+/**
+ * Run `fn` with a user, session, tags, metadata or trace name attached to
+ * every span started inside it, including spans of tools and nested flows.
+ * The exporter applies them to the trace and its observations.
+ *
+ * Nested calls override the user, session and trace name of the enclosing
+ * context, add to its tags and merge over its metadata.
+ *
+ * @example
+ * ```typescript
+ * await withLangfuseContext({ userId: req.user.id, sessionId: req.sessionId }, () =>
+ *   supportFlow(question)
+ * );
+ * ```
+ */
+export function withLangfuseContext<T>(context: LangfuseTraceContext, fn: () => T): T {
+  return activeContext.run(mergeTraceContexts(activeContext.getStore(), context), fn);
+}
+
+/**
+ * Trace context of the enclosing `withLangfuseContext` calls, if any.
+ */
+export function getLangfuseContext(): LangfuseTraceContext | undefined {
+  return activeContext.getStore();
+}
+
+/**
+ * Combine an outer and an inner trace context, the inner one taking precedence.
+ */
+export function mergeTraceContexts(
+  outer: LangfuseTraceContext | undefined,
+  inner: LangfuseTraceContext | undefined
+): LangfuseTraceContext {
+  const merged: LangfuseTraceContext = { ...outer, ...inner };
+  if (outer?.tags || inner?.tags) {
+    merged.tags = [...new Set([...(outer?.tags || []), ...(inner?.tags || [])])];
+  }
+  if (outer?.metadata || inner?.metadata) {
+    merged.metadata = { ...outer?.metadata, ...inner?.metadata };
+  }
+  return merged;
+}
+
+/**
+ * Record a trace context on a span as `langfuse.*` attributes.
+ */
+export function setTraceContextAttributes(span: Span, context: LangfuseTraceContext): void {
+  if (context.userId) span.setAttribute(USER_ID_ATTRIBUTE, context.userId);
+  if (context.sessionId) span.setAttribute(SESSION_ID_ATTRIBUTE, context.sessionId);
+  if (context.tags?.length) span.setAttribute(TRACE_TAGS_ATTRIBUTE, context.tags);
+  if (context.metadata && Object.keys(context.metadata).length > 0) {
+    span.setAttribute(TRACE_METADATA_ATTRIBUTE, JSON.stringify(context.metadata));
+  }
+  if (context.traceName) span.setAttribute(TRACE_NAME_ATTRIBUTE, context.traceName);
+}
+
+/**
+ * Read the trace context recorded on a span.
+ *
+ * @returns `undefined` when the span carries no context
+ */
+export function readTraceContext(attributes: Record<string, unknown>): LangfuseTraceContext | undefined {
+  const context: LangfuseTraceContext = {};
+  if (typeof attributes[USER_ID_ATTRIBUTE] === 'string') context.userId = attributes[USER_ID_ATTRIBUTE];
+  if (typeof attributes[SESSION_ID_ATTRIBUTE] === 'string') context.sessionId = attributes[SESSION_ID_ATTRIBUTE];
+  if (Array.isArray(attributes[TRACE_TAGS_ATTRIBUTE])) {
+    context.tags = (attributes[TRACE_TAGS_ATTRIBUTE] as unknown[]).map(String);
+  }
+  if (typeof attributes[TRACE_METADATA_ATTRIBUTE] === 'string') {
+    try {
+      context.metadata = JSON.parse(attributes[TRACE_METADATA_ATTRIBUTE]);
+    } catch {
+      // Ignore metadata not written by setTraceContextAttributes
+    }
+  }
+  if (typeof attributes[TRACE_NAME_ATTRIBUTE] === 'string') context.traceName = attributes[TRACE_NAME_ATTRIBUTE];
+  return Object.keys(context).length > 0 ? context : undefined;
+}
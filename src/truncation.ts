@@ -0,0 +1,159 @@
+import type { TruncationOptions } from './types.js';
+
+/**
+ * Result of truncating a value to a size budget.
+ */
+export interface TruncationResult<T> {
+  value: T;
+  /** Serialized size of the original value in bytes */
+  originalBytes: number;
+  truncated: boolean;
+}
+
+type PayloadField = 'input' | 'output' | 'metadata';
+
+const PAYLOAD_FIELDS: PayloadField[] = ['input', 'output', 'metadata'];
+
+/** Langfuse rejects ingestion events larger than 1 MB */
+const DEFAULT_MAX_EVENT_BYTES = 1_000_000;
+
+/** Room kept for the rest of the event body and the truncation markers */
+const EVENT_OVERHEAD_BYTES = 1024;
+
+const MAX_DEPTH = 64;
+const MIN_STRING_LENGTH = 16;
+
+/**
+ * Serialized size of a value in bytes, as sent to Langfuse.
+ */
+export function byteSize(value: unknown): number {
+  const json = JSON.stringify(value);
+  return json === undefined ? 0 : Buffer.byteLength(json, 'utf8');
+}
+
+/**
+ * Shorten a JSON value until it serializes to at most `maxBytes`. Long
+ * strings are cut and long arrays lose their tail, each leaving a note of
+ * what was removed, so the result stays valid JSON with its original shape.
+ */
+export function truncateValue<T>(value: T, maxBytes: number): TruncationResult<T> {
+  const originalBytes = byteSize(value);
+  if (originalBytes <= maxBytes) {
+    return { value, originalBytes, truncated: false };
+  }
+
+  let maxStringLength = maxBytes;
+  let maxItems = Math.max(1, Math.floor(maxBytes / 2));
+  while (maxStringLength >= MIN_STRING_LENGTH || maxItems > 1) {
+    const truncated = shorten(value, maxStringLength, maxItems, 0);
+    if (byteSize(truncated) <= maxBytes) {
+      return { value: truncated as T, originalBytes, truncated: true };
+    }
+    maxStringLength = Math.max(MIN_STRING_LENGTH - 1, Math.floor(maxStringLength / 2));
+    maxItems = Math.max(1, Math.floor(maxItems / 2));
+  }
+
+  // Too many keys to shorten structurally; keep the beginning as text
+  const text = JSON.stringify(value);
+  let length = maxBytes;
+  while (length > 0 && byteSize(cutString(text, length)) > maxBytes) {
+    length = Math.floor(length / 2);
+  }
+  return { value: cutString(text, length) as unknown as T, originalBytes, truncated: true };
+}
+
+/**
+ * Keeps observation payloads within Langfuse's ingestion limits.
+ */
+export class PayloadTruncator {
+  private readonly maxFieldBytes: number;
+  private readonly maxEventBytes: number;
+
+  constructor(options: TruncationOptions = {}) {
+    this.maxEventBytes = options.maxEventBytes ?? DEFAULT_MAX_EVENT_BYTES;
+    this.maxFieldBytes = Math.min(options.maxFieldBytes ?? Infinity, this.maxEventBytes);
+  }
+
+  /**
+   * Truncate the input, output and metadata of an event body in place.
+   * Truncated bodies are marked with `metadata.truncated` and the original
+   * size of each truncated field in `metadata.originalSize`.
+   *
+   * @returns Original size in bytes of each truncated field
+   */
+  truncate(body: Record<string, any>): Partial<Record<PayloadField, number>> {
+    const sizes = new Map<PayloadField, number>();
+    for (const field of PAYLOAD_FIELDS) {
+      if (body[field] !== undefined) sizes.set(field, byteSize(body[field]));
+    }
+
+    const originalSize: Partial<Record<PayloadField, number>> = {};
+    const apply = (field: PayloadField, maxBytes: number) => {
+      const result = truncateValue(body[field], maxBytes);
+      if (!result.truncated) return;
+      body[field] = result.value;
+      originalSize[field] = originalSize[field] ?? result.originalBytes;
+      sizes.set(field, byteSize(result.value));
+    };
+
+    for (const [field, size] of sizes) {
+      if (size > this.maxFieldBytes) apply(field, this.maxFieldBytes);
+    }
+
+    // Share what is left of the event budget, shrinking the largest fields first
+    const budget = this.maxEventBytes - EVENT_OVERHEAD_BYTES;
+    const total = () => [...sizes.values()].reduce((sum, size) => sum + size, 0);
+    const bySize = [...sizes.keys()].sort((a, b) => sizes.get(b)! - sizes.get(a)!);
+    for (const field of bySize) {
+      const overflow = total() - budget;
+      if (overflow <= 0) break;
+      apply(field, Math.max(sizes.get(field)! - overflow, Math.floor(budget / bySize.length)));
+    }
+
+    if (Object.keys(originalSize).length > 0) {
+      body.metadata = { ...asRecord(body.metadata), truncated: true, originalSize };
+    }
+    return originalSize;
+  }
+}
+
+function shorten(value: unknown, maxStringLength: number, maxItems: number, depth: number): unknown {
+  if (typeof value === 'string') {
+    return value.length > maxStringLength ? cutString(value, maxStringLength) : value;
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[truncated]';
+  }
+  if (Array.isArray(value)) {
+    const items = value.slice(0, maxItems).map(item => shorten(item, maxStringLength, maxItems, depth + 1));
+    if (value.length > maxItems) {
+      items.push(`[${value.length - maxItems} more items truncated]`);
+    }
+    return items;
+  }
+  const json = (value as { toJSON?: () => unknown }).toJSON;
+  if (typeof json === 'function') {
+    return shorten(json.call(value), maxStringLength, maxItems, depth);
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, shorten(item, maxStringLength, maxItems, depth + 1)])
+  );
+}
+
+function cutString(value: string, length: number): string {
+  return `${value.slice(0, length)}…[${value.length - length} chars truncated]`;
+}
+
+/**
+ * Metadata as an object the truncation markers can be added to.
+ */
+function asRecord(metadata: unknown): Record<string, unknown> {
+  if (metadata === undefined) return {};
+  if (metadata && typeof metadata === 'object' && !Array.isArray(metadata)) {
+    return metadata as Record<string, unknown>;
+  }
+  return { value: metadata };
+}
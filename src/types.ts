@@ -14,17 +14,70 @@ export interface LangfuseConfig {
   /** Enable debug logging */
   debug?: boolean;
   
+  /** Logger receiving plugin diagnostics, e.g. a pino or winston instance (default: console) */
+  logger?: LangfuseLogger;
+  
+  /**
+   * Most verbose level to log (default: `debug` when `debug` is set,
+   * otherwise `warn` for the console and the logger's own level for a
+   * custom logger)
+   */
+  logLevel?: LogLevel;
+  
   /** Number of events to batch before sending (default: 20) */
   flushAt?: number;
   
   /** Interval in ms to flush events (default: 10000) */
   flushInterval?: number;
   
-  /** Custom cost calculation function */
-  calculateCost?: (modelName: string, usage: TokenUsage) => number;
+  /** Fraction of traces to send, between 0 and 1 (default: 1) */
+  sampleRate?: number;
+  
+  /**
+   * Tracing environment, e.g. `production` or `staging` (default: the
+   * `deployment.environment.name` resource attribute)
+   */
+  environment?: string;
+  
+  /** Release of the application (default: the git commit resource attribute) */
+  release?: string;
+  
+  /** Version of the traced application (default: the `service.version` resource attribute) */
+  version?: string;
+  
+  /** Service name of the OpenTelemetry resource (default: `OTEL_SERVICE_NAME` or the npm package name) */
+  serviceName?: string;
+  
+  /** Tags added to every trace */
+  tags?: string[];
+  
+  /** Tags added to the traces of matching flows */
+  tagRules?: TagRule[];
+  
+  /**
+   * Custom cost calculation function. Overrides the built-in price catalog;
+   * the catalog cost is passed in `context.defaultCost` so it can be wrapped.
+   */
+  calculateCost?: (modelName: string, usage: TokenUsage, context: CostContext) => number;
   
-  /** Filter function to include/exclude spans */
-  spanFilter?: (span: SpanData) => boolean;
+  /** Built-in model price catalog settings */
+  pricing?: PricingOptions;
+  
+  /** Redaction applied to input, output, metadata and status messages before export */
+  redaction?: RedactionOptions;
+  
+  /**
+   * Filter applied to every span before it is exported. Either a predicate
+   * returning `true` for spans to keep, or declarative include/exclude and
+   * sampling rules.
+   */
+  spanFilter?: SpanFilterFunction | SpanFilterOptions;
+  
+  /**
+   * Sampling decided per trace once its root span has ended, keeping failed,
+   * slow and expensive traces complete
+   */
+  tailSampling?: TailSamplingOptions;
   
   // Development/production configuration following Genkit patterns
   /** Force export in development environment (default: false) */
@@ -35,6 +88,228 @@ export interface LangfuseConfig {
   
   /** Maximum queue size for batch processor (default: 1000) */
   maxQueueSize?: number;
+  
+  /**
+   * How traces are sent: 'ingestion' uses the Langfuse ingestion API, 'otlp'
+   * sends OpenTelemetry spans to Langfuse's OTLP endpoint and cannot be
+   * combined with `spool` (default: 'ingestion')
+   */
+  transport?: 'ingestion' | 'otlp';
+
+  /** Persist export data on disk until Langfuse has accepted it */
+  spool?: SpoolOptions;
+  
+  /** Handling of inline media (base64 data URLs) in inputs and outputs */
+  media?: MediaOptions;
+  
+  /** Size limits for input, output and metadata */
+  truncation?: TruncationOptions;
+  
+  /**
+   * Langfuse observation types for Genkit actions (default: false). `true`
+   * enables the built-in mapping; an object keyed by action name, action
+   * subtype or Genkit span type overrides it, e.g. `{ supportAgent: 'agent' }`.
+   * When disabled, actions are spans and embedder calls generations.
+   */
+  observationTypes?: Record<string, LangfuseObservationType> | boolean;
+  
+  /** Formatting of retriever observations */
+  retrieval?: RetrievalOptions;
+  
+  /**
+   * Which span events are exported as Langfuse events (default: all);
+   * `false` exports none.
+   */
+  spanEvents?: SpanEventOptions | false;
+  
+  /** Additional Langfuse projects, by name, that traces can be routed to */
+  destinations?: Record<string, LangfuseDestination>;
+  
+  /**
+   * Rules routing traces to `destinations`; the first matching rule wins and
+   * unmatched traces go to the project of `publicKey`
+   */
+  routing?: RoutingRule[];
+}
+
+/**
+ * Log levels, from least to most verbose.
+ */
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug' | 'trace';
+
+/**
+ * Structured fields attached to a log entry.
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Logger compatible with pino (`logger.info(fields, message)`) and winston
+ * (`logger.log(level, message, fields)`).
+ */
+export interface LangfuseLogger {
+  error(...args: any[]): void;
+  warn(...args: any[]): void;
+  info(...args: any[]): void;
+  debug(...args: any[]): void;
+  trace?(...args: any[]): void;
+  log?(...args: any[]): void;
+  isLevelEnabled?(level: string): boolean;
+}
+
+/**
+ * On-disk export queue configuration.
+ */
+export interface SpoolOptions {
+  /** Directory for spool segments; use one directory per process */
+  directory: string;
+  
+  /** Segment size after which a new segment is started (default: 4 MiB) */
+  maxSegmentBytes?: number;
+  
+  /** Total spool size after which the oldest segments are discarded (default: 64 MiB) */
+  maxTotalBytes?: number;
+  
+  /** Delay before the first redelivery attempt (default: 1000) */
+  retryInitialDelayMillis?: number;
+  
+  /** Upper bound for the exponential redelivery delay (default: 60000) */
+  retryMaxDelayMillis?: number;
+}
+
+/**
+ * Tail sampling settings. A trace is kept if any of the keep rules matches,
+ * otherwise with probability `sampleRate`.
+ */
+export interface TailSamplingOptions {
+  /** Fraction of the remaining traces to keep, between 0 and 1 (default: 1) */
+  sampleRate?: number;
+
+  /** Keep traces with a failed span (default: true) */
+  keepErrors?: boolean;
+
+  /** Keep traces whose root span took at least this many milliseconds */
+  latencyThresholdMillis?: number;
+
+  /** Keep traces whose model calls cost at least this much, in USD */
+  costThreshold?: number;
+
+  /**
+   * Maximum number of spans buffered across traces; beyond it the oldest
+   * traces are decided before their root ends (default: 10000)
+   */
+  maxBufferedSpans?: number;
+
+  /** Time a trace may be buffered before it is decided early (default: 300000) */
+  maxTraceAgeMillis?: number;
+}
+
+/**
+ * Why tail sampling kept a trace.
+ */
+export type TailSamplingReason = 'error' | 'latency' | 'cost' | 'sampled';
+
+/**
+ * Langfuse observation types.
+ */
+export type LangfuseObservationType =
+  | 'span'
+  | 'generation'
+  | 'event'
+  | 'agent'
+  | 'tool'
+  | 'chain'
+  | 'retriever'
+  | 'evaluator'
+  | 'embedding'
+  | 'guardrail';
+
+/**
+ * Langfuse ingestion event produced by the exporter.
+ */
+export interface IngestionEvent {
+  type: 'trace-create' | `${LangfuseObservationType}-create` | 'score-create';
+  body: Record<string, any>;
+}
+
+/**
+ * An ingestion event Langfuse did not accept.
+ */
+export interface IngestionEventError {
+  /** ID of the trace or observation */
+  id: string;
+  
+  /** Ingestion event type */
+  type: IngestionEvent['type'];
+  
+  /** HTTP status reported for the event, absent for network errors */
+  status?: number;
+  
+  /** Error message returned by Langfuse */
+  message: string;
+  
+  /** Whether sending the event again may succeed */
+  retryable: boolean;
+}
+
+/**
+ * Built-in sensitive data detectors.
+ */
+export type RedactionDetector = 'email' | 'phone' | 'creditCard' | 'apiKey';
+
+/**
+ * Regex based redaction rule applied to every string value.
+ */
+export interface RedactionRule {
+  /** Pattern to replace; string patterns are compiled with the `g` flag */
+  pattern: RegExp | string;
+
+  /** Replacement text (default: the redaction options' `replacement`) */
+  replacement?: string;
+}
+
+/**
+ * Where a value being masked lives.
+ */
+export interface RedactionContext {
+  /** Observation field the value belongs to */
+  field: 'input' | 'output' | 'metadata' | 'statusMessage';
+
+  /** Location of the value, e.g. `input.messages[0].content[1].text` */
+  path: string;
+
+  /** Langfuse object being created */
+  observationType: 'trace' | LangfuseObservationType;
+
+  /** Span name */
+  spanName: string;
+
+  traceId: string;
+}
+
+/**
+ * Redaction configuration.
+ */
+export interface RedactionOptions {
+  /** Built-in detectors to enable (default: none) */
+  detectors?: RedactionDetector[];
+
+  /** Additional regex rules */
+  rules?: RedactionRule[];
+
+  /**
+   * Fields to remove entirely, as JSON paths rooted at the observation,
+   * e.g. `$.input.messages[*].content[*].media` or `$..password`.
+   */
+  removePaths?: string[];
+
+  /**
+   * Custom masking callback applied to every primitive value after the
+   * detectors and rules. Return the value unchanged to keep it.
+   */
+  mask?: (value: unknown, context: RedactionContext) => unknown;
+
+  /** Replacement text for rules without their own (default: '[REDACTED]') */
+  replacement?: string;
 }
 
 /**
@@ -44,6 +319,63 @@ export interface TokenUsage {
   inputTokens: number;
   outputTokens: number;
   totalTokens: number;
+  
+  /** Input tokens served from the provider's context cache (included in `inputTokens`) */
+  cachedInputTokens?: number;
+  
+  /** Reasoning/thinking tokens (billed in addition to `outputTokens`) */
+  thinkingTokens?: number;
+}
+
+/**
+ * Model prices in USD per million tokens.
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  
+  /** Rate for cached input tokens (default: `input`) */
+  cachedInput?: number;
+  
+  /** Rate for thinking tokens (default: `output`) */
+  thinking?: number;
+  
+  /** ISO date from which this price applies (default: always) */
+  effectiveFrom?: string;
+}
+
+/**
+ * Price catalog settings.
+ */
+export interface PricingOptions {
+  /** Disable the built-in catalog, leaving only overrides (default: false) */
+  disableCatalog?: boolean;
+  
+  /**
+   * Prices keyed by `provider/model` or `model`, taking precedence over the
+   * catalog. Model keys match model names by prefix, e.g. `gpt-4o` matches
+   * `gpt-4o-2024-08-06`.
+   */
+  overrides?: Record<string, ModelPrice | ModelPrice[]>;
+}
+
+/**
+ * Cost per usage type in USD, as sent to Langfuse `costDetails`.
+ */
+export type CostDetails = Record<string, number>;
+
+/**
+ * Context passed to `calculateCost`.
+ */
+export interface CostContext {
+  /** Provider parsed from the model path or name, e.g. `googleai` */
+  provider: string;
+  
+  /** Total cost from the price catalog, if the model is known */
+  defaultCost?: number;
+  
+  /** Cost breakdown from the price catalog, if the model is known */
+  defaultCostDetails?: CostDetails;
 }
 
 /**
@@ -52,6 +384,430 @@ export interface TokenUsage {
 export interface SpanData {
   name: string;
   spanType?: string;
+  subtype?: string;
   path?: string;
+  flowName?: string;
   isRoot?: boolean;
-}
\ No newline at end of file
+  isError?: boolean;
+  traceId?: string;
+  spanId?: string;
+  parentSpanId?: string;
+}
+
+/**
+ * Predicate returning `true` for spans that should be exported.
+ */
+export type SpanFilterFunction = (span: SpanData) => boolean;
+
+/**
+ * Action taken when a span filter rule matches.
+ */
+export type SpanFilterAction = 'include' | 'exclude' | 'sample';
+
+/**
+ * Declarative span filter rule. All match fields that are set must match;
+ * a rule without match fields matches every span.
+ */
+export interface SpanFilterRule {
+  /** Name of the outermost flow the span belongs to */
+  flowName?: string | string[];
+
+  /** Genkit span type (`genkit:type`) or action subtype, e.g. `model` or `tool` */
+  spanType?: string | string[];
+
+  /** Glob matched against `genkit:path` (`*` within a segment, `**` across segments) */
+  path?: string;
+
+  /** Match only root (`true`) or only non-root (`false`) spans */
+  isRoot?: boolean;
+
+  /** Match only failed (`true`) or only successful (`false`) spans */
+  isError?: boolean;
+
+  /** What to do with matching spans */
+  action: SpanFilterAction;
+
+  /** Fraction of traces to keep for `sample` rules, between 0 and 1 */
+  sampleRate?: number;
+}
+
+/**
+ * Rule-based span filter configuration.
+ */
+export interface SpanFilterOptions {
+  /** Rules evaluated in order; the first matching rule decides */
+  rules?: SpanFilterRule[];
+
+  /** Action for spans no rule matches (default: 'include') */
+  defaultAction?: 'include' | 'exclude';
+
+  /**
+   * What happens to the children of a dropped span: 'reparent' attaches them
+   * to the nearest exported ancestor, 'drop' drops the whole subtree
+   * (default: 'reparent').
+   */
+  orphans?: 'reparent' | 'drop';
+
+  /** Additional predicate that can veto spans the rules include */
+  predicate?: SpanFilterFunction;
+
+  /** Maximum number of spans held while waiting for their parent (default: 10000) */
+  maxPendingSpans?: number;
+}
+
+/**
+ * Langfuse project traces can be routed to. Options not set here are taken
+ * from the main configuration.
+ */
+export interface LangfuseDestination extends Partial<Omit<LangfuseConfig, 'destinations' | 'routing'>> {
+  /** Public key of the project */
+  publicKey: string;
+
+  /** Secret key of the project */
+  secretKey: string;
+}
+
+/**
+ * Rule selecting the Langfuse project of a trace. All match fields that are
+ * set must match; a rule without match fields matches every trace.
+ */
+export interface RoutingRule {
+  /** Name of the destination, or `default` for the main project */
+  destination: string;
+
+  /** Name of the outermost flow */
+  flowName?: string | string[];
+
+  /** Glob matched against `genkit:path` (`*` within a segment, `**` across segments) */
+  path?: string;
+
+  /** Tenant set as `metadata.tenant` with `withLangfuseContext` */
+  tenant?: string | string[];
+}
+
+/**
+ * Tags for the traces of flows whose name matches `flow`.
+ */
+export interface TagRule {
+  /** Flow name, may contain `*` wildcards */
+  flow: string;
+
+  /** Tags added to matching traces */
+  tags: string[];
+}
+
+/**
+ * Request-scoped trace attributes set with `withLangfuseContext`.
+ */
+export interface LangfuseTraceContext {
+  /** User the trace belongs to */
+  userId?: string;
+
+  /** Session grouping related traces */
+  sessionId?: string;
+
+  /** Trace tags, added to those of enclosing contexts */
+  tags?: string[];
+
+  /** Trace metadata, merged over that of enclosing contexts */
+  metadata?: Record<string, unknown>;
+
+  /** Trace name (default: the name of the outermost flow) */
+  traceName?: string;
+}
+
+/**
+ * Langfuse prompt version a generation was produced from.
+ */
+export interface LangfusePromptReference {
+  /** Prompt name in Langfuse */
+  name: string;
+
+  /** Prompt version in Langfuse */
+  version: number;
+
+  /** Whether the local fallback was used because Langfuse was unreachable */
+  isFallback?: boolean;
+}
+
+/**
+ * Options for fetching a prompt from Langfuse Prompt Management.
+ */
+export interface LangfusePromptOptions {
+  /** Prompt version to fetch (default: the version with `label`) */
+  version?: number;
+
+  /** Prompt label to fetch (default: 'production') */
+  label?: string;
+
+  /** Prompt type stored in Langfuse (default: 'text') */
+  type?: 'text' | 'chat';
+
+  /** Seconds a fetched prompt is served from the local cache (default: 60) */
+  cacheTtlSeconds?: number;
+
+  /**
+   * Template used when the prompt cannot be fetched: a string for text
+   * prompts, a list of `{ role, content }` messages for chat prompts.
+   */
+  fallback?: string | Array<{ role: string; content: string }>;
+
+  /** Number of fetch retries (default: 2) */
+  maxRetries?: number;
+
+  /** Timeout for fetching the prompt in milliseconds */
+  fetchTimeoutMs?: number;
+}
+
+/**
+ * Langfuse score data types.
+ */
+export type ScoreDataType = 'NUMERIC' | 'BOOLEAN' | 'CATEGORICAL';
+
+/**
+ * Score attached to a trace or observation, e.g. user feedback or the result
+ * of a programmatic check.
+ */
+export interface LangfuseScore {
+  /** Trace to score, e.g. from `getCurrentTraceId()` */
+  traceId: string;
+
+  /** Observation within the trace to score (default: the whole trace) */
+  observationId?: string;
+
+  /** Score name, e.g. `user-feedback` */
+  name: string;
+
+  /** Number for numeric scores, boolean or 0/1 for boolean scores, string for categorical scores */
+  value: number | boolean | string;
+
+  /** Free-text comment, e.g. the user's feedback */
+  comment?: string;
+
+  /** Data type (default: inferred from `value`) */
+  dataType?: ScoreDataType;
+
+  /** Score ID; scores sent again with the same ID are updated (default: random) */
+  id?: string;
+
+  /** Langfuse score config the score must comply with */
+  configId?: string;
+
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Evaluator result for one test case of a Genkit eval run.
+ */
+export interface GenkitEvalMetric {
+  /** Evaluator name, e.g. `genkitEval/faithfulness` */
+  evaluator: string;
+  scoreId?: string;
+  score?: number | string | boolean;
+  status?: 'UNKNOWN' | 'PASS' | 'FAIL';
+  rationale?: string;
+  error?: string;
+
+  /** Trace of the evaluator itself */
+  traceId?: string;
+  spanId?: string;
+}
+
+/**
+ * One test case of a Genkit eval run.
+ */
+export interface GenkitEvalResult {
+  testCaseId: string;
+  input?: unknown;
+  output?: unknown;
+  context?: unknown[];
+  reference?: unknown;
+
+  /** Traces of the flow runs that produced `output` */
+  traceIds?: string[];
+  metrics?: GenkitEvalMetric[];
+}
+
+/**
+ * Genkit eval run, as written to `.genkit/evals` by `genkit eval:flow` and
+ * `genkit eval:run`.
+ */
+export interface GenkitEvalRun {
+  key: {
+    evalRunId: string;
+    createdAt?: string;
+    actionRef?: string;
+    datasetId?: string;
+    datasetVersion?: number;
+  };
+  results: GenkitEvalResult[];
+}
+
+/**
+ * Options for exporting a Genkit eval run to Langfuse.
+ */
+export interface EvalRunExportOptions {
+  /** Langfuse dataset to create or reuse (default: the Genkit dataset ID or the evaluated action name) */
+  datasetName?: string;
+
+  /** Name of the Langfuse dataset run (default: the eval run ID) */
+  runName?: string;
+
+  runDescription?: string;
+
+  /** Metadata added to the dataset run */
+  metadata?: Record<string, unknown>;
+
+  /**
+   * Langfuse dataset item ID for a test case. Item IDs are unique per
+   * project (default: derived from the dataset name and test case ID).
+   */
+  itemId?: (result: GenkitEvalResult, datasetName: string) => string;
+}
+
+/**
+ * Outcome of exporting a Genkit eval run.
+ */
+export interface EvalRunExportResult {
+  datasetName: string;
+  runName: string;
+
+  /** Dataset items created or updated */
+  items: number;
+
+  /** Items linked to the trace of their flow run */
+  linkedItems: number;
+
+  /** Evaluator scores recorded on traces */
+  scores: number;
+
+  /** Test cases or metrics that could not be exported */
+  skipped: Array<{ testCaseId: string; evaluator?: string; reason: string }>;
+}
+
+/**
+ * Test case in Genkit's eval dataset format, as accepted by
+ * `genkit eval:flow --input`.
+ */
+export interface GenkitDatasetItem {
+  /** Langfuse dataset item ID */
+  testCaseId: string;
+  input: unknown;
+
+  /** Expected output of the Langfuse dataset item */
+  reference?: unknown;
+}
+
+/**
+ * Options for running a flow over a Langfuse dataset.
+ */
+export interface DatasetRunOptions {
+  /** Name of the Langfuse dataset run (default: `<flow>-<timestamp>`) */
+  runName?: string;
+
+  runDescription?: string;
+
+  /** Metadata added to the dataset run */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Outcome of running a flow over a Langfuse dataset.
+ */
+export interface DatasetRunResult {
+  datasetName: string;
+  runName: string;
+
+  /** One entry per dataset item, in dataset order */
+  runs: Array<{
+    testCaseId: string;
+    traceId?: string;
+    output?: unknown;
+    error?: string;
+  }>;
+
+  /** Items linked to the trace of their flow run */
+  linkedItems: number;
+}
+
+/**
+ * Inline media found in an input, output or metadata payload.
+ */
+export interface MediaUpload {
+  /** MIME type from the data URL, e.g. `image/png` */
+  contentType: string;
+
+  /** Decoded media bytes */
+  content: Buffer;
+
+  /** Base64-encoded SHA-256 hash of `content` */
+  sha256Hash: string;
+
+  traceId: string;
+
+  /** Observation the media belongs to, absent for traces */
+  observationId?: string;
+
+  field: 'input' | 'output' | 'metadata';
+}
+
+/**
+ * Destination for media extracted from payloads, e.g. a blob store.
+ */
+export interface MediaSink {
+  /**
+   * Store the media.
+   *
+   * @returns Text replacing the data URL in the payload, e.g. a Langfuse
+   *   media reference token or a URL
+   */
+  upload(media: MediaUpload): Promise<string>;
+}
+
+/**
+ * Inline media handling configuration.
+ */
+export interface MediaOptions {
+  /**
+   * `upload` replaces media with references to uploaded copies, `strip`
+   * replaces it with a short placeholder (default: 'upload')
+   */
+  mode?: 'upload' | 'strip';
+
+  /** Where media is uploaded (default: the Langfuse media API) */
+  sink?: MediaSink;
+
+  /** Media larger than this is stripped instead of uploaded (default: 20 MiB) */
+  maxBytes?: number;
+}
+
+/**
+ * Payload size limits. Payloads above a limit are shortened: long strings
+ * are cut and long arrays lose their tail, keeping the JSON structure.
+ */
+export interface TruncationOptions {
+  /** Maximum serialized size of each of input, output and metadata, in bytes (default: no limit) */
+  maxFieldBytes?: number;
+
+  /** Maximum serialized size of a whole event, in bytes (default: 1000000) */
+  maxEventBytes?: number;
+}
+
+/**
+ * Retriever observation formatting.
+ */
+export interface RetrievalOptions {
+  /** Characters of each retrieved document's text to keep (default: 1000) */
+  maxTextLength?: number;
+}
+
+/**
+ * Span event forwarding. Names may contain `*` wildcards.
+ */
+export interface SpanEventOptions {
+  /** Event names to export (default: all) */
+  include?: string[];
+
+  /** Event names never to export, taking precedence over `include` */
+  exclude?: string[];
+}
@@ -0,0 +1,100 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { LangfuseConfigError, readEnvironmentConfig, resolveConfig } from '../src/config';
+
+describe('readEnvironmentConfig', () => {
+  it('should read and convert LANGFUSE_* variables', () => {
+    const { config, sources } = readEnvironmentConfig({
+      LANGFUSE_SECRET_KEY: 'sk-lf-1',
+      LANGFUSE_PUBLIC_KEY: 'pk-lf-1',
+      LANGFUSE_HOST: 'https://eu.cloud.langfuse.com',
+      LANGFUSE_FLUSH_AT: '50',
+      LANGFUSE_SAMPLE_RATE: '0.25',
+      LANGFUSE_DEBUG: 'true',
+      LANGFUSE_TRACING_ENVIRONMENT: 'staging',
+      LANGFUSE_RELEASE: 'v1.2.3',
+    });
+
+    expect(config).toEqual({
+      secretKey: 'sk-lf-1',
+      publicKey: 'pk-lf-1',
+      baseUrl: 'https://eu.cloud.langfuse.com',
+      flushAt: 50,
+      sampleRate: 0.25,
+      debug: true,
+      environment: 'staging',
+      release: 'v1.2.3',
+    });
+    expect(sources.baseUrl).toBe('LANGFUSE_HOST');
+  });
+
+  it('should prefer LANGFUSE_BASEURL over LANGFUSE_HOST', () => {
+    const { config } = readEnvironmentConfig({
+      LANGFUSE_BASEURL: 'https://a.example.com',
+      LANGFUSE_HOST: 'https://b.example.com',
+    });
+
+    expect(config.baseUrl).toBe('https://a.example.com');
+  });
+});
+
+describe('resolveConfig', () => {
+  const env = { LANGFUSE_SECRET_KEY: 'sk-env', LANGFUSE_PUBLIC_KEY: 'pk-env' };
+
+  it('should build the config from the environment alone', () => {
+    expect(resolveConfig({}, env)).toEqual({ secretKey: 'sk-env', publicKey: 'pk-env' });
+  });
+
+  it('should let explicit options override the environment', () => {
+    const config = resolveConfig({ secretKey: 'sk-explicit', flushAt: 5 }, { ...env, LANGFUSE_FLUSH_AT: '10' });
+
+    expect(config.secretKey).toBe('sk-explicit');
+    expect(config.flushAt).toBe(5);
+  });
+
+  it('should list every invalid field', () => {
+    let error: LangfuseConfigError | undefined;
+    try {
+      resolveConfig({ flushAt: -1, baseUrl: 'not a url' }, { LANGFUSE_SAMPLE_RATE: 'often' });
+    } catch (e) {
+      error = e as LangfuseConfigError;
+    }
+
+    expect(error).toBeInstanceOf(LangfuseConfigError);
+    expect(error!.issues.map(issue => issue.field).sort()).toEqual(
+      ['baseUrl', 'flushAt', 'publicKey', 'sampleRate', 'secretKey']
+    );
+    expect(error!.issues.find(issue => issue.field === 'sampleRate')?.environmentVariable)
+      .toBe('LANGFUSE_SAMPLE_RATE');
+    expect(error!.message).toContain('Langfuse secret key is required');
+    expect(error!.message).toContain('flushAt: Number must be greater than 0');
+  });
+
+  it('should reject invalid tracing environments', () => {
+    expect(() => resolveConfig({ environment: 'Production' }, env)).toThrow('environment');
+  });
+
+  it('should reject tag rules without a flow', () => {
+    expect(() => resolveConfig({ tagRules: [{ flow: '', tags: ['support'] }] }, env)).toThrow('tagRules');
+  });
+
+  it('should reject a spool with the OTLP transport', () => {
+    expect(() => resolveConfig({ transport: 'otlp', spool: { directory: '/tmp/spool' } }, env))
+      .toThrow("spool: The spool is not supported with transport 'otlp'");
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Genkit } from 'genkit';
+import { flushTracing } from 'genkit/tracing';
+import { Langfuse } from 'langfuse';
+import { main } from '../src/cli';
+import { LangfuseDatasetRunner } from '../src/datasets';
+import { PluginLogger } from '../src/logger';
+
+const mockItems = [
+  { id: 'item-1', status: 'ACTIVE', input: { question: 'Reset password?' }, expectedOutput: 'Use the reset link.' },
+  { id: 'item-2', status: 'ACTIVE', input: { question: 'Fail' }, expectedOutput: null },
+  { id: 'item-3', status: 'ARCHIVED', input: { question: 'Old' } },
+];
+
+jest.mock('langfuse', () => ({
+  Langfuse: class {
+    getDataset = jest.fn(async () => ({ name: 'golden', items: mockItems }));
+    createDatasetRunItem = jest.fn(async () => ({}));
+  },
+}));
+
+jest.mock('genkit/tracing', () => ({
+  flushTracing: jest.fn(async () => {}),
+}));
+
+function createGenkit() {
+  const flow = {
+    run: jest.fn(async (input: any) => {
+      if (input.question === 'Fail') throw new Error('Model unavailable');
+      return { result: `Answer to ${input.question}`, telemetry: { traceId: `trace-${input.question}` } };
+    }),
+  };
+  const ai = { registry: { lookupAction: jest.fn(async (key: string) => key === '/flow/answerFlow' ? flow : undefined) } };
+  return { ai: ai as unknown as Genkit, flow };
+}
+
+describe('LangfuseDatasetRunner', () => {
+  let client: any;
+  let runner: LangfuseDatasetRunner;
+
+  beforeEach(() => {
+    client = new (Langfuse as any)();
+    runner = new LangfuseDatasetRunner(client, new PluginLogger({ level: 'error' }));
+  });
+
+  it('should convert active items to Genkit test cases', async () => {
+    expect(await runner.importDataset('golden')).toEqual([
+      { testCaseId: 'item-1', input: { question: 'Reset password?' }, reference: 'Use the reset link.' },
+      { testCaseId: 'item-2', input: { question: 'Fail' } },
+    ]);
+  });
+
+  it('should run the flow and link traces to their items', async () => {
+    const { ai, flow } = createGenkit();
+
+    const result = await runner.runDataset(ai, 'golden', 'answerFlow', { runName: 'nightly' });
+
+    expect(flow.run).toHaveBeenCalledTimes(2);
+    expect(flushTracing).toHaveBeenCalled();
+    expect(client.createDatasetRunItem).toHaveBeenCalledTimes(1);
+    expect(client.createDatasetRunItem).toHaveBeenCalledWith(expect.objectContaining({
+      runName: 'nightly',
+      datasetItemId: 'item-1',
+      traceId: 'trace-Reset password?',
+    }));
+    expect(result).toEqual({
+      datasetName: 'golden',
+      runName: 'nightly',
+      linkedItems: 1,
+      runs: [
+        { testCaseId: 'item-1', traceId: 'trace-Reset password?', output: 'Answer to Reset password?' },
+        { testCaseId: 'item-2', error: 'Model unavailable' },
+      ],
+    });
+  });
+
+  it('should fail for unknown flows', async () => {
+    const { ai } = createGenkit();
+
+    await expect(runner.runDataset(ai, 'golden', 'missingFlow')).rejects.toThrow('Flow missingFlow is not defined');
+  });
+});
+
+describe('cli', () => {
+  const env = process.env;
+  let directory: string;
+  let output: { log: jest.Mock; error: jest.Mock };
+
+  beforeEach(() => {
+    process.env = { ...env, LANGFUSE_SECRET_KEY: 'sk-lf-test', LANGFUSE_PUBLIC_KEY: 'pk-lf-test' };
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'langfuse-cli-'));
+    output = { log: jest.fn(), error: jest.fn() };
+  });
+
+  afterEach(() => {
+    process.env = env;
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should write a dataset in Genkit format', async () => {
+    const file = path.join(directory, 'golden.json');
+
+    expect(await main(['dataset', 'import', 'golden', '--output', file], output)).toBe(0);
+
+    expect(JSON.parse(fs.readFileSync(file, 'utf8'))).toHaveLength(2);
+    expect(output.log).toHaveBeenCalledWith(`Wrote 2 test cases to ${file}`);
+  });
+
+  it('should require the app and flow for dataset runs', async () => {
+    expect(await main(['dataset', 'run', 'golden'], output)).toBe(1);
+    expect(output.error).toHaveBeenCalledWith(expect.stringContaining('dataset run requires --app and --flow'));
+  });
+
+  it('should print usage for unknown commands', async () => {
+    expect(await main(['traces', 'list'], output)).toBe(1);
+    expect(output.error).toHaveBeenCalledWith(expect.stringContaining('Usage:'));
+  });
+});
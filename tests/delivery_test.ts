@@ -0,0 +1,114 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import {
+  checkEventSize,
+  DeliveryTracker,
+  IngestionResults,
+  LangfuseExportError,
+} from '../src/delivery';
+import type { IngestionEvent } from '../src/types';
+
+function createItem(id: string, type: IngestionEvent['type'] = 'span-create') {
+  return { id: `envelope-${id}`, type, body: { id } };
+}
+
+describe('IngestionResults', () => {
+  it('should report the last attempt of the envelopes that were sent', () => {
+    const results = new IngestionResults();
+    results.record([createItem('a')], 503, { message: 'Service unavailable' });
+    results.record([createItem('a')], 200, { successes: [], errors: [] });
+
+    // b was kept in the SDK queue for the next request
+    const outcome = results.complete([createItem('a'), createItem('b')]);
+
+    expect(outcome.delivered).toEqual([{ type: 'span-create', body: { id: 'a' } }]);
+    expect(outcome.failed).toEqual([]);
+    expect(results.complete([createItem('a')])).toEqual({ delivered: [], failed: [] });
+  });
+
+  it('should only fail the events listed in a 207 response', () => {
+    const results = new IngestionResults();
+    results.record([createItem('a'), createItem('b')], 207, {
+      successes: [{ id: 'envelope-a', status: 201 }],
+      errors: [{ id: 'envelope-b', status: 400, message: 'Invalid request data' }],
+    });
+
+    const outcome = results.complete([createItem('a'), createItem('b')]);
+
+    expect(outcome.delivered).toEqual([{ type: 'span-create', body: { id: 'a' } }]);
+    expect(outcome.failed.map(failure => failure.error)).toEqual([
+      { id: 'b', type: 'span-create', status: 400, message: 'Invalid request data', retryable: false },
+    ]);
+  });
+
+  it('should classify rate limits, server and network errors as retryable', () => {
+    const errorOf = (status: number | undefined, body?: unknown, error?: unknown) => {
+      const results = new IngestionResults();
+      results.record([createItem('a')], status, body, error);
+      return results.complete([createItem('a')]).failed[0].error;
+    };
+
+    expect(errorOf(429).retryable).toBe(true);
+    expect(errorOf(502, {}).retryable).toBe(true);
+    expect(errorOf(undefined, undefined, new Error('Network error'))).toEqual(
+      expect.objectContaining({ status: undefined, message: 'Network error', retryable: true })
+    );
+    expect(errorOf(403, { message: 'Forbidden' })).toEqual(
+      expect.objectContaining({ status: 403, message: 'Forbidden', retryable: false })
+    );
+  });
+});
+
+describe('checkEventSize', () => {
+  it('should reject events the SDK would drop', () => {
+    expect(checkEventSize({ type: 'span-create', body: { id: 'a', output: 'small' } })).toBeUndefined();
+    expect(checkEventSize({ type: 'span-create', body: { id: 'a', output: 'x'.repeat(1_000_000) } })).toEqual(
+      expect.objectContaining({ id: 'a', status: 413, retryable: false })
+    );
+  });
+});
+
+describe('DeliveryTracker', () => {
+  it('should resolve once every event has a result', async () => {
+    const tracker = new DeliveryTracker();
+    const batch = tracker.track([createItem('a'), createItem('t', 'trace-create')], 1000);
+
+    tracker.settle({ delivered: [{ type: 'span-create', body: { id: 'a' } }], failed: [] });
+    expect(batch.settled).toBe(false);
+
+    tracker.settle({
+      delivered: [],
+      failed: [{
+        event: { type: 'trace-create', body: { id: 't' } },
+        error: { id: 't', type: 'trace-create', status: 500, message: 'Internal error', retryable: true },
+      }],
+    });
+    expect(batch.settled).toBe(true);
+    expect(await batch.result).toEqual([expect.objectContaining({ id: 't', status: 500 })]);
+  });
+
+  it('should fail as retryable when Langfuse does not answer in time', async () => {
+    const tracker = new DeliveryTracker();
+    const batch = tracker.track([createItem('a')], 10);
+
+    const error = await batch.result.catch(e => e);
+
+    expect(error).toBeInstanceOf(LangfuseExportError);
+    expect(error.retryable).toBe(true);
+  });
+});
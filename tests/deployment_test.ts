@@ -0,0 +1,115 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { afterEach, describe, expect, it } from '@jest/globals';
+import type { Resource } from '@opentelemetry/resources';
+import { resolveDeployment, resolveTraceTags, toLangfuseEnvironment } from '../src/deployment';
+import { LangfuseTelemetryProvider } from '../src/telemetry-provider';
+
+describe('resolveDeployment', () => {
+  const resource = {
+    'service.name': 'support-bot',
+    'service.version': '2.4.0',
+    'deployment.environment': 'Staging',
+    'vcs.ref.head.revision': '9f2c1ab',
+  };
+
+  it('should read environment, release and version from resource attributes', () => {
+    expect(resolveDeployment({}, resource)).toEqual({
+      environment: 'staging',
+      release: '9f2c1ab',
+      version: '2.4.0',
+      serviceName: 'support-bot',
+    });
+  });
+
+  it('should prefer configured values', () => {
+    expect(resolveDeployment({ environment: 'production', release: 'v2.4', version: '2.4.1' }, resource))
+      .toMatchObject({ environment: 'production', release: 'v2.4', version: '2.4.1' });
+  });
+
+  it('should prefer deployment.environment.name', () => {
+    expect(resolveDeployment({}, {
+      'deployment.environment.name': 'prod',
+      'deployment.environment': 'legacy',
+    }).environment).toBe('prod');
+  });
+
+  it('should leave fields unset without config or attributes', () => {
+    expect(resolveDeployment({})).toEqual({});
+  });
+});
+
+describe('toLangfuseEnvironment', () => {
+  it('should normalize environment names', () => {
+    expect(toLangfuseEnvironment('EU West.Prod')).toBe('eu-west-prod');
+    expect(toLangfuseEnvironment('langfuse-internal')).toBeUndefined();
+    expect(toLangfuseEnvironment('')).toBeUndefined();
+  });
+});
+
+describe('resolveTraceTags', () => {
+  it('should combine static tags and matching flow rules', () => {
+    const config = {
+      tags: ['web'],
+      tagRules: [
+        { flow: 'support*', tags: ['support'] },
+        { flow: 'billingFlow', tags: ['billing'] },
+      ],
+    };
+
+    expect(resolveTraceTags(config, 'supportChatFlow')).toEqual(['web', 'support']);
+    expect(resolveTraceTags(config, 'otherFlow')).toEqual(['web']);
+    expect(resolveTraceTags({})).toEqual([]);
+  });
+});
+
+describe('LangfuseTelemetryProvider resource', () => {
+  const originalEnv = process.env.OTEL_RESOURCE_ATTRIBUTES;
+
+  afterEach(() => {
+    if (originalEnv === undefined) {
+      delete process.env.OTEL_RESOURCE_ATTRIBUTES;
+    } else {
+      process.env.OTEL_RESOURCE_ATTRIBUTES = originalEnv;
+    }
+  });
+
+  function createResource(config: Record<string, unknown>): Resource {
+    const provider = new LangfuseTelemetryProvider({ secretKey: 'sk-test', publicKey: 'pk-test', ...config });
+    return provider['createResource']();
+  }
+
+  it('should detect OTEL_RESOURCE_ATTRIBUTES', () => {
+    process.env.OTEL_RESOURCE_ATTRIBUTES = 'service.name=support-bot,deployment.environment.name=staging';
+
+    expect(createResource({}).attributes).toMatchObject({
+      'service.name': 'support-bot',
+      'deployment.environment.name': 'staging',
+    });
+  });
+
+  it('should let configured options override detected attributes', () => {
+    process.env.OTEL_RESOURCE_ATTRIBUTES = 'service.name=support-bot';
+
+    expect(createResource({ serviceName: 'billing-bot', version: '3.0.0', environment: 'production' }).attributes)
+      .toMatchObject({
+        'service.name': 'billing-bot',
+        'service.version': '3.0.0',
+        'deployment.environment.name': 'production',
+      });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { Langfuse } from 'langfuse';
+import { LangfuseEvalExporter } from '../src/evaluation';
+import { PluginLogger } from '../src/logger';
+import type { GenkitEvalRun } from '../src/types';
+
+jest.mock('langfuse', () => ({
+  Langfuse: class {
+    createDataset = jest.fn(async () => ({}));
+    createDatasetItem = jest.fn(async () => ({}));
+    createDatasetRunItem = jest.fn(async () => ({}));
+    score = jest.fn();
+    flushAsync = jest.fn(async () => {});
+  },
+}));
+
+const evalRun: GenkitEvalRun = {
+  key: { evalRunId: 'run-1', actionRef: '/flow/answerFlow', datasetId: 'support-questions' },
+  results: [
+    {
+      testCaseId: 'case-1',
+      input: { question: 'How do I reset my password?' },
+      output: 'Use the reset link.',
+      reference: 'Click "Forgot password".',
+      traceIds: ['trace-1'],
+      metrics: [
+        { evaluator: 'genkitEval/faithfulness', score: 0.8, status: 'PASS', rationale: 'Grounded in context' },
+        { evaluator: 'custom/isPolite', status: 'FAIL' },
+        { evaluator: 'genkitEval/answer_relevancy', error: 'Model quota exceeded' },
+      ],
+    },
+    {
+      testCaseId: 'case-2',
+      input: { question: 'Where is my invoice?' },
+    },
+  ],
+};
+
+describe('LangfuseEvalExporter', () => {
+  let client: any;
+  let exporter: LangfuseEvalExporter;
+
+  beforeEach(() => {
+    client = new (Langfuse as any)();
+    exporter = new LangfuseEvalExporter(client, new PluginLogger({ level: 'error' }));
+  });
+
+  it('should create the dataset and items for the inputs', async () => {
+    const result = await exporter.exportEvalRun(evalRun);
+
+    expect(client.createDataset).toHaveBeenCalledWith(expect.objectContaining({ name: 'support-questions' }));
+    expect(client.createDatasetItem).toHaveBeenCalledTimes(2);
+    expect(client.createDatasetItem).toHaveBeenCalledWith(expect.objectContaining({
+      datasetName: 'support-questions',
+      input: { question: 'How do I reset my password?' },
+      expectedOutput: 'Click "Forgot password".',
+    }));
+    expect(result).toMatchObject({ datasetName: 'support-questions', runName: 'run-1', items: 2 });
+  });
+
+  it('should link items to the flow traces', async () => {
+    const result = await exporter.exportEvalRun(evalRun, { runName: 'nightly', runDescription: 'Nightly eval' });
+
+    const itemId = client.createDatasetItem.mock.calls[0][0].id;
+    expect(client.createDatasetRunItem).toHaveBeenCalledTimes(1);
+    expect(client.createDatasetRunItem).toHaveBeenCalledWith(expect.objectContaining({
+      runName: 'nightly',
+      runDescription: 'Nightly eval',
+      datasetItemId: itemId,
+      traceId: 'trace-1',
+    }));
+    expect(result.linkedItems).toBe(1);
+    expect(result.skipped).toContainEqual({ testCaseId: 'case-2', reason: 'No flow trace recorded' });
+  });
+
+  it('should record evaluator results as scores on the traces', async () => {
+    const result = await exporter.exportEvalRun(evalRun);
+
+    expect(client.score).toHaveBeenCalledWith(expect.objectContaining({
+      traceId: 'trace-1',
+      name: 'genkitEval/faithfulness',
+      value: 0.8,
+      dataType: 'NUMERIC',
+      comment: 'Grounded in context',
+    }));
+    expect(client.score).toHaveBeenCalledWith(expect.objectContaining({
+      name: 'custom/isPolite',
+      value: 0,
+      dataType: 'BOOLEAN',
+    }));
+    expect(result.scores).toBe(2);
+    expect(result.skipped).toContainEqual({
+      testCaseId: 'case-1',
+      evaluator: 'genkitEval/answer_relevancy',
+      reason: 'Evaluator failed: Model quota exceeded',
+    });
+    expect(client.flushAsync).toHaveBeenCalled();
+  });
+
+  it('should reuse item and score IDs when a run is exported again', async () => {
+    await exporter.exportEvalRun(evalRun);
+    await exporter.exportEvalRun(evalRun);
+
+    const itemIds = client.createDatasetItem.mock.calls.map((call: any[]) => call[0].id);
+    const scoreIds = client.score.mock.calls.map((call: any[]) => call[0].id);
+    expect(itemIds[2]).toBe(itemIds[0]);
+    expect(scoreIds[2]).toBe(scoreIds[0]);
+  });
+
+  it('should name datasets after the evaluated action without a Genkit dataset', async () => {
+    const result = await exporter.exportEvalRun({ ...evalRun, key: { evalRunId: 'run-2', actionRef: '/flow/answerFlow' } });
+
+    expect(result.datasetName).toBe('genkit-eval-answerFlow');
+  });
+});
@@ -16,33 +16,86 @@
 
 import { describe, expect, it, jest, beforeEach } from '@jest/globals';
 import { ExportResultCode } from '@opentelemetry/core';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import type { ReadableSpan } from '@opentelemetry/sdk-trace-base';
+import { LangfuseExportError } from '../src/delivery';
 import { LangfuseExporter } from '../src/exporter';
 import type { LangfuseConfig } from '../src/types';
 
-// Mock Langfuse SDK
-const mockGeneration = jest.fn();
-const mockTrace = jest.fn();
-const mockSpan = jest.fn();
+// Mock Langfuse SDK, queueing events like the real client
+const mockEvents = new EventEmitter();
+let mockQueue: Array<{ id: string; type: string; body: any }> = [];
+// Responses to the next ingestion requests, then 200; an Error fails the request
+let mockResponses: Array<{ status: number; body: unknown } | Error> = [];
+// Envelopes per request; the SDK keeps the rest queued
+let mockBatchLimit = Infinity;
+
+function mockEnqueue(type: string) {
+  return jest.fn((body: any) => {
+    mockQueue.push({ id: `envelope-${body.id}`, type, body });
+  });
+}
+
+const mockGeneration = mockEnqueue('generation-create');
+const mockTrace = mockEnqueue('trace-create');
+const mockSpan = mockEnqueue('span-create');
+const mockScore = mockEnqueue('score-create');
+const mockEvent = mockEnqueue('event-create');
+const mockObservation = jest.fn((type: string, body: any) => {
+  mockQueue.push({ id: `envelope-${body.id}`, type, body });
+});
 const mockShutdownAsync = jest.fn();
-const mockFlushAsync = jest.fn();
+const mockFlushAsync = jest.fn(async function (this: any) {
+  if (mockQueue.length === 0) return;
+  const items = mockQueue;
+  mockQueue = items.slice(mockBatchLimit);
+  try {
+    await this.fetch('https://cloud.langfuse.com/api/public/ingestion', {
+      method: 'POST',
+      headers: {},
+      body: JSON.stringify({ batch: items.slice(0, mockBatchLimit) }),
+    });
+  } catch {
+    // The SDK reports failed requests as warnings
+  }
+  mockEvents.emit('flush', items);
+});
 
 jest.mock('langfuse', () => ({
-  Langfuse: jest.fn().mockImplementation(() => ({
-    generation: mockGeneration,
-    trace: mockTrace,
-    span: mockSpan,
-    shutdownAsync: mockShutdownAsync,
-    flushAsync: mockFlushAsync,
-  })),
+  Langfuse: class {
+    generation = mockGeneration;
+    trace = mockTrace;
+    span = mockSpan;
+    score = mockScore;
+    event = mockEvent;
+    enqueue = mockObservation;
+    shutdownAsync = mockShutdownAsync;
+    flushAsync = mockFlushAsync;
+    on(event: string, listener: (...args: any[]) => void) {
+      mockEvents.on(event, listener);
+    }
+    async fetch() {
+      const response = mockResponses.shift() || { status: 200, body: { successes: [], errors: [] } };
+      if (response instanceof Error) throw response;
+      const text = JSON.stringify(response.body);
+      return { status: response.status, text: async () => text, json: async () => JSON.parse(text) };
+    }
+  },
 }));
 
 // Mock SpanMetadataExtractor
-jest.mock('../src/metadata-extractor', () => ({
-  SpanMetadataExtractor: {
-    extractMetadata: jest.fn(),
-  },
-}));
+jest.mock('../src/metadata-extractor', () => {
+  const { SpanMetadataExtractor: actual } = jest.requireActual('../src/metadata-extractor') as any;
+  return {
+    SpanMetadataExtractor: {
+      extractMetadata: jest.fn(),
+      extractFlowName: actual.extractFlowName,
+    },
+  };
+});
 
 import { SpanMetadataExtractor } from '../src/metadata-extractor';
 
@@ -66,10 +119,15 @@ describe('LangfuseExporter', () => {
   let exporter: LangfuseExporter;
 
   beforeEach(() => {
+    mockEvents.removeAllListeners();
+    mockQueue = [];
+    mockResponses = [];
+    mockBatchLimit = Infinity;
     config = {
       secretKey: 'sk-test',
       publicKey: 'pk-test',
       debug: false,
+      observationTypes: true,
     };
     exporter = new LangfuseExporter(config);
     
@@ -77,6 +135,8 @@ describe('LangfuseExporter', () => {
     mockGeneration.mockClear();
     mockTrace.mockClear();
     mockSpan.mockClear();
+    mockObservation.mockClear();
+    mockEvent.mockClear();
     mockShutdownAsync.mockClear();
     mockFlushAsync.mockClear();
     (SpanMetadataExtractor.extractMetadata as jest.Mock).mockClear();
@@ -100,6 +160,144 @@ describe('LangfuseExporter', () => {
       });
     });
 
+    it('should skip traces outside the sample without waiting for Langfuse', (done) => {
+      exporter = new LangfuseExporter({ ...config, sampleRate: 0, exportTimeoutMillis: 60000 });
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockReturnValue({
+        spanType: 'model',
+        path: '/model/openai/gpt-4',
+        name: 'gpt-4',
+      });
+
+      exporter.export([createMockSpan()], (result) => {
+        expect(result.code).toBe(ExportResultCode.SUCCESS);
+        expect(mockGeneration).not.toHaveBeenCalled();
+        expect(mockFlushAsync).not.toHaveBeenCalled();
+        done();
+      });
+    });
+
+    it('should fail with retryable errors when Langfuse is unavailable', (done) => {
+      const span = createMockSpan();
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockReturnValue({
+        spanType: 'model',
+        path: '/model/openai/gpt-4',
+        name: 'gpt-4',
+      });
+      mockResponses = [{ status: 503, body: { message: 'Service unavailable' } }];
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      exporter.export([span], (result) => {
+        expect(result.code).toBe(ExportResultCode.FAILED);
+        expect(result.error).toBeInstanceOf(LangfuseExportError);
+        expect((result.error as LangfuseExportError).retryable).toBe(true);
+        (console.error as jest.Mock).mockRestore();
+        done();
+      });
+    });
+
+    it('should fail with fatal errors when credentials are rejected', (done) => {
+      const span = createMockSpan();
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockReturnValue({
+        spanType: 'model',
+        path: '/model/openai/gpt-4',
+        name: 'gpt-4',
+      });
+      mockResponses = [{ status: 401, body: { message: 'Invalid credentials' } }];
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      exporter.export([span], (result) => {
+        const error = result.error as LangfuseExportError;
+        expect(result.code).toBe(ExportResultCode.FAILED);
+        expect(error.retryable).toBe(false);
+        expect(error.eventErrors).toEqual([
+          { id: 'span123', type: 'generation-create', status: 401, message: 'Invalid credentials', retryable: false },
+        ]);
+        (console.error as jest.Mock).mockRestore();
+        done();
+      });
+    });
+
+    it('should surface per-event errors of partial ingestion', (done) => {
+      const root = createMockSpan({
+        spanContext: () => ({ spanId: 'root1', traceId: 'trace456' }),
+      } as any);
+      const child = createMockSpan({ parentSpanId: 'root1' });
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockImplementation((span: any) =>
+        span.spanContext().spanId === 'root1'
+          ? { spanType: 'flow', path: '/flow/myFlow', name: 'myFlow', isRoot: true }
+          : { spanType: 'tool', path: '/tool/search', name: 'search' }
+      );
+      mockResponses = [{
+        status: 207,
+        body: {
+          successes: [{ id: 'envelope-root1', status: 201 }],
+          errors: [{ id: 'envelope-span123', status: 400, message: 'Invalid request data', error: 'startTime is invalid' }],
+        },
+      }];
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      exporter.export([child, root], (result) => {
+        const error = result.error as LangfuseExportError;
+        expect(result.code).toBe(ExportResultCode.FAILED);
+        expect(error.eventErrors).toEqual([{
+          id: 'span123',
+          type: 'tool-create',
+          status: 400,
+          message: 'Invalid request data: startTime is invalid',
+          retryable: false,
+        }]);
+        (console.error as jest.Mock).mockRestore();
+        done();
+      });
+    });
+
+    it('should wait for events the SDK kept queued for a later request', (done) => {
+      const root = createMockSpan({
+        spanContext: () => ({ spanId: 'root1', traceId: 'trace456' }),
+      } as any);
+      const child = createMockSpan({ parentSpanId: 'root1' });
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockImplementation((span: any) =>
+        span.spanContext().spanId === 'root1'
+          ? { spanType: 'flow', path: '/flow/myFlow', name: 'myFlow', isRoot: true }
+          : { spanType: 'tool', path: '/tool/search', name: 'search' }
+      );
+      mockBatchLimit = 1;
+      mockResponses = [{ status: 200, body: { successes: [], errors: [] } }, { status: 503, body: { message: 'Service unavailable' } }];
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      exporter.export([child, root], (result) => {
+        const error = result.error as LangfuseExportError;
+        expect(result.code).toBe(ExportResultCode.FAILED);
+        expect(mockFlushAsync).toHaveBeenCalledTimes(2);
+        expect(error.eventErrors).toEqual([expect.objectContaining({ id: 'trace456', type: 'trace-create', status: 503 })]);
+        (console.error as jest.Mock).mockRestore();
+        done();
+      });
+    });
+
+    it('should fail events larger than the ingestion limit instead of sending them', (done) => {
+      exporter = new LangfuseExporter({ ...config, truncation: { maxEventBytes: 5_000_000 } });
+      const span = createMockSpan({ parentSpanId: 'parent789' });
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockReturnValue({
+        spanType: 'tool',
+        path: '/tool/search',
+        name: 'search',
+        output: JSON.stringify('x'.repeat(1_100_000)),
+      });
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      exporter.export([span], (result) => {
+        const error = result.error as LangfuseExportError;
+        expect(result.code).toBe(ExportResultCode.FAILED);
+        expect(error.retryable).toBe(false);
+        expect(error.eventErrors).toEqual([expect.objectContaining({ id: 'span123', type: 'tool-create', status: 413 })]);
+        expect(mockSpan).not.toHaveBeenCalled();
+        expect(mockObservation).not.toHaveBeenCalled();
+        (console.error as jest.Mock).mockRestore();
+        done();
+      });
+    });
+
     it('should handle export errors gracefully', (done) => {
       const span = createMockSpan();
       (SpanMetadataExtractor.extractMetadata as jest.Mock).mockImplementation(() => {
@@ -142,6 +340,50 @@ describe('LangfuseExporter', () => {
       });
     });
 
+    it('should link generations to their Langfuse prompt', (done) => {
+      const span = createMockSpan();
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockReturnValue({
+        spanType: 'model',
+        path: '/model/googleai/gemini-2.5-flash',
+        name: 'gemini-2.5-flash',
+        promptName: 'support-answer',
+        promptVersion: 3,
+      });
+
+      exporter.export([span], (result) => {
+        expect(result.code).toBe(ExportResultCode.SUCCESS);
+        expect(mockGeneration).toHaveBeenCalledWith(
+          expect.objectContaining({
+            promptName: 'support-answer',
+            promptVersion: 3,
+          })
+        );
+        done();
+      });
+    });
+
+    it('should send the completion start time of streamed generations', (done) => {
+      const span = createMockSpan();
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockReturnValue({
+        spanType: 'model',
+        path: '/model/googleai/gemini-2.5-flash',
+        name: 'gemini-2.5-flash',
+        streaming: { firstChunkTime: 1000250, lastChunkTime: 1000900, chunkCount: 12 },
+      });
+
+      exporter.export([span], (result) => {
+        expect(result.code).toBe(ExportResultCode.SUCCESS);
+        const generation = mockGeneration.mock.calls[0][0] as any;
+        expect(generation.completionStartTime).toEqual(new Date(1000250));
+        expect(generation.metadata.streaming).toEqual({
+          chunkCount: 12,
+          timeToFirstTokenMs: 250,
+          streamingDurationMs: 650,
+        });
+        done();
+      });
+    });
+
     it('should create trace for root spans', (done) => {
       const span = createMockSpan();
       (SpanMetadataExtractor.extractMetadata as jest.Mock).mockReturnValue({
@@ -164,8 +406,158 @@ describe('LangfuseExporter', () => {
       });
     });
 
+    it('should export nested flows as spans of the outermost flow trace', (done) => {
+      const outer = createMockSpan({
+        name: 'orderFlow',
+        spanContext: () => ({ spanId: 'outer1', traceId: 'trace456' }),
+      } as any);
+      const inner = createMockSpan({
+        name: 'lookupFlow',
+        parentSpanId: 'outer1',
+        spanContext: () => ({ spanId: 'inner1', traceId: 'trace456' }),
+      } as any);
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockImplementation((span: any) =>
+        span.spanContext().spanId === 'outer1'
+          ? { spanType: 'flow', path: '/{orderFlow,t:flow}', isRoot: true, input: '"order-1"', output: '"shipped"' }
+          : { spanType: 'flow', path: '/{orderFlow,t:flow}/{lookupFlow,t:flow}', input: '"sku-1"', output: '"in stock"' }
+      );
+
+      exporter.export([inner, outer], (result) => {
+        expect(result.code).toBe(ExportResultCode.SUCCESS);
+        expect(mockTrace).toHaveBeenCalledTimes(1);
+        expect(mockTrace).toHaveBeenCalledWith(expect.objectContaining({
+          id: 'trace456',
+          name: 'orderFlow',
+          input: 'order-1',
+          output: 'shipped',
+        }));
+        expect(mockObservation).toHaveBeenCalledWith('chain-create', expect.objectContaining({
+          id: 'inner1',
+          traceId: 'trace456',
+          name: 'lookupFlow',
+        }));
+        // The outer flow is the trace, not an observation the inner flow could point at
+        expect(mockObservation.mock.calls[0][1]).not.toHaveProperty('parentObservationId');
+        done();
+      });
+    });
+
+    it('should export tools and embedders as typed observations', (done) => {
+      const tool = createMockSpan({ name: 'getWeather', parentSpanId: 'parent789' });
+      const embedder = createMockSpan({
+        name: 'googleai/text-embedding-004',
+        parentSpanId: 'parent789',
+        spanContext: () => ({ spanId: 'embed1', traceId: 'trace456' }),
+      } as any);
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockImplementation((span: any) =>
+        span.spanContext().spanId === 'embed1'
+          ? { spanType: 'action', subtype: 'embedder', name: 'googleai/text-embedding-004' }
+          : { spanType: 'action', subtype: 'tool', name: 'getWeather', input: '{"city":"Oslo"}' }
+      );
+
+      exporter.export([tool, embedder], (result) => {
+        expect(result.code).toBe(ExportResultCode.SUCCESS);
+        expect(mockSpan).not.toHaveBeenCalled();
+        expect(mockObservation).toHaveBeenCalledWith('tool-create', expect.objectContaining({
+          id: 'span123',
+          input: { city: 'Oslo' },
+          metadata: expect.objectContaining({ toolName: 'getWeather' }),
+        }));
+        expect(mockObservation).toHaveBeenCalledWith('embedding-create', expect.objectContaining({
+          id: 'embed1',
+          model: 'googleai/text-embedding-004',
+        }));
+        done();
+      });
+    });
+
+    it('should export actions as spans and embeddings as generations unless typed observations are enabled', (done) => {
+      exporter = new LangfuseExporter({ secretKey: 'sk-test', publicKey: 'pk-test' });
+      const tool = createMockSpan({ name: 'getWeather', parentSpanId: 'parent789' });
+      const embedder = createMockSpan({
+        name: 'googleai/text-embedding-004',
+        parentSpanId: 'parent789',
+        spanContext: () => ({ spanId: 'embed1', traceId: 'trace456' }),
+      } as any);
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockImplementation((span: any) =>
+        span.spanContext().spanId === 'embed1'
+          ? { spanType: 'action', subtype: 'embedder', name: 'googleai/text-embedding-004' }
+          : { spanType: 'action', subtype: 'tool', name: 'getWeather' }
+      );
+
+      exporter.export([tool, embedder], (result) => {
+        expect(result.code).toBe(ExportResultCode.SUCCESS);
+        expect(mockObservation).not.toHaveBeenCalled();
+        expect(mockSpan).toHaveBeenCalledWith(expect.objectContaining({ id: 'span123', name: 'getWeather' }));
+        expect(mockGeneration).toHaveBeenCalledWith(expect.objectContaining({
+          id: 'embed1',
+          model: 'googleai/text-embedding-004',
+        }));
+        done();
+      });
+    });
+
+    it('should export retrievals with their documents and stats', (done) => {
+      const span = createMockSpan({ parentSpanId: 'parent789' });
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockReturnValue({
+        spanType: 'action',
+        subtype: 'retriever',
+        name: 'devLocalVectorstore/docs',
+        input: JSON.stringify({ query: { content: [{ text: 'refund policy' }] } }),
+        output: JSON.stringify({ documents: [{ content: [{ text: 'Refunds within 30 days.' }], metadata: { score: 0.8 } }] }),
+      });
+
+      exporter.export([span], (result) => {
+        expect(result.code).toBe(ExportResultCode.SUCCESS);
+        expect(mockObservation).toHaveBeenCalledWith('retriever-create', expect.objectContaining({
+          input: { query: 'refund policy' },
+          output: { documents: [{ text: 'Refunds within 30 days.', score: 0.8, metadata: { score: 0.8 } }], count: 1 },
+          metadata: expect.objectContaining({
+            retriever: 'devLocalVectorstore/docs',
+            retrieval: { documentCount: 1, latencyMs: 1000000, maxScore: 0.8, minScore: 0.8, meanScore: 0.8 },
+          }),
+        }));
+        done();
+      });
+    });
+
+    it('should mark failed observations and flag their trace', (done) => {
+      const root = createMockSpan({
+        name: 'weatherFlow',
+        spanContext: () => ({ spanId: 'root1', traceId: 'trace456' }),
+      } as any);
+      const tool = createMockSpan({
+        name: 'getWeather',
+        parentSpanId: 'root1',
+        status: { code: 2, message: 'City not found' },
+        events: [{
+          name: 'exception',
+          time: [1500, 0],
+          attributes: { 'exception.type': 'GenkitError', 'exception.message': 'City not found' },
+        }],
+      } as any);
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockImplementation((span: any) =>
+        span.spanContext().spanId === 'root1'
+          ? { spanType: 'flow', name: 'weatherFlow', isRoot: true, state: 'success' }
+          : { spanType: 'action', subtype: 'tool', name: 'getWeather', state: 'error' }
+      );
+
+      exporter.export([tool, root], (result) => {
+        expect(result.code).toBe(ExportResultCode.SUCCESS);
+        expect(mockObservation).toHaveBeenCalledWith('tool-create', expect.objectContaining({
+          level: 'ERROR',
+          statusMessage: 'GenkitError: City not found',
+        }));
+        expect(mockTrace).toHaveBeenCalledWith(expect.objectContaining({
+          tags: ['error'],
+          metadata: expect.objectContaining({ error: true, errorMessage: 'GenkitError: City not found' }),
+        }));
+        done();
+      });
+    });
+
     it('should create span for other types', (done) => {
-      const span = createMockSpan();
+      const span = createMockSpan({ parentSpanId: 'parent789' });
       (SpanMetadataExtractor.extractMetadata as jest.Mock).mockReturnValue({
         spanType: 'action',
         name: 'myAction',
@@ -187,6 +579,66 @@ describe('LangfuseExporter', () => {
     });
   });
 
+  describe('span events', () => {
+    const events = [
+      { name: 'cache.miss', time: [1200, 0], attributes: { key: 'weather:paris' } },
+      { name: 'retry', time: [1300, 0], attributes: { attempt: 2 } },
+    ];
+
+    it('should export span events as events of the span observation', (done) => {
+      const span = createMockSpan({ parentSpanId: 'parent789', events } as any);
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockReturnValue({ spanType: 'action', name: 'myAction' });
+
+      exporter.export([span], (result) => {
+        expect(result.code).toBe(ExportResultCode.SUCCESS);
+        expect(mockEvent).toHaveBeenCalledTimes(2);
+        expect(mockEvent).toHaveBeenCalledWith({
+          id: 'span123-event-0',
+          traceId: 'trace456',
+          parentObservationId: 'span123',
+          name: 'cache.miss',
+          startTime: new Date(1200000),
+          metadata: { key: 'weather:paris', spanName: 'test-span' },
+        });
+        done();
+      });
+    });
+
+    it('should only forward configured event names', (done) => {
+      exporter = new LangfuseExporter({ ...config, spanEvents: { include: ['cache.*'] } });
+      const span = createMockSpan({ events } as any);
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockReturnValue({ spanType: 'flow', isRoot: true });
+
+      exporter.export([span], (result) => {
+        expect(result.code).toBe(ExportResultCode.SUCCESS);
+        expect(mockEvent).toHaveBeenCalledTimes(1);
+        expect(mockEvent.mock.calls[0][0]).not.toHaveProperty('parentObservationId');
+        done();
+      });
+    });
+
+    it('should redact the status message of exception events', (done) => {
+      exporter = new LangfuseExporter({ ...config, redaction: { detectors: ['email'] } });
+      const span = createMockSpan({
+        parentSpanId: 'parent789',
+        events: [{
+          name: 'exception',
+          time: [1500, 0],
+          attributes: { 'exception.type': 'Error', 'exception.message': 'No account for jane@example.com' },
+        }],
+      } as any);
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockReturnValue({ spanType: 'action', name: 'myAction' });
+
+      exporter.export([span], () => {
+        const event = mockEvent.mock.calls[0][0] as any;
+        expect(event.level).toBe('ERROR');
+        expect(event.statusMessage).toBe('No account for [REDACTED_EMAIL]');
+        expect(event.metadata['exception.message']).toBe('No account for [REDACTED_EMAIL]');
+        done();
+      });
+    });
+  });
+
   describe('session and user context', () => {
     it('should include session and user info when available', (done) => {
       const span = createMockSpan();
@@ -210,6 +662,82 @@ describe('LangfuseExporter', () => {
         done();
       });
     });
+
+    it('should apply context recorded on child spans to the trace', (done) => {
+      const root = createMockSpan({
+        name: 'supportFlow',
+        spanContext: () => ({ spanId: 'root1', traceId: 'trace456' }),
+        status: { code: 2, message: 'Escalation failed' },
+      } as any);
+      const tool = createMockSpan({ name: 'lookupOrder', parentSpanId: 'root1' });
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockImplementation((span: any) =>
+        span.spanContext().spanId === 'root1'
+          ? { spanType: 'flow', isRoot: true, traceContext: { tags: ['support'], metadata: { plan: 'free' } } }
+          : {
+            spanType: 'action',
+            userId: 'user-1',
+            traceContext: {
+              userId: 'user-1',
+              sessionId: 'session-1',
+              tags: ['vip'],
+              metadata: { plan: 'pro' },
+              traceName: 'support-chat',
+            },
+          }
+      );
+
+      exporter.export([tool, root], (result) => {
+        expect(result.code).toBe(ExportResultCode.SUCCESS);
+        expect(mockTrace).toHaveBeenCalledWith(expect.objectContaining({
+          name: 'support-chat',
+          userId: 'user-1',
+          sessionId: 'session-1',
+          tags: ['support', 'vip', 'error'],
+          metadata: expect.objectContaining({ plan: 'pro', genkit: true }),
+        }));
+        done();
+      });
+    });
+  });
+
+  describe('deployment', () => {
+    it('should set environment, release, version and tags from config and resource', (done) => {
+      exporter = new LangfuseExporter({
+        ...config,
+        environment: 'staging',
+        tags: ['web'],
+        tagRules: [{ flow: 'support*', tags: ['support'] }],
+      });
+      const resource = { attributes: { 'service.name': 'support-bot', 'service.version': '2.4.0', 'git.commit.sha': '9f2c1ab' } };
+      const root = createMockSpan({ name: 'supportFlow', resource } as any);
+      const tool = createMockSpan({
+        name: 'lookupOrder',
+        parentSpanId: 'span123',
+        spanContext: () => ({ spanId: 'tool1', traceId: 'trace456' }),
+        resource,
+      } as any);
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockImplementation((span: any) =>
+        span.name === 'supportFlow'
+          ? { spanType: 'flow', isRoot: true, path: '/{supportFlow,t:flow}' }
+          : { spanType: 'action', subtype: 'tool' }
+      );
+
+      exporter.export([tool, root], (result) => {
+        expect(result.code).toBe(ExportResultCode.SUCCESS);
+        expect(mockTrace).toHaveBeenCalledWith(expect.objectContaining({
+          environment: 'staging',
+          release: '9f2c1ab',
+          version: '2.4.0',
+          tags: ['web', 'support'],
+          metadata: expect.objectContaining({ serviceName: 'support-bot' }),
+        }));
+        expect(mockObservation).toHaveBeenCalledWith('tool-create', expect.objectContaining({
+          environment: 'staging',
+          version: '2.4.0',
+        }));
+        done();
+      });
+    });
   });
 
   describe('model extraction', () => {
@@ -237,7 +765,390 @@ describe('LangfuseExporter', () => {
     });
   });
 
+  describe('tail sampling', () => {
+    it('should export complete failed traces and drop unsampled ones', async () => {
+      exporter = new LangfuseExporter({ ...config, tailSampling: { sampleRate: 0 } });
+      const failedTool = createMockSpan({
+        name: 'lookupOrder',
+        parentSpanId: 'root1',
+        spanContext: () => ({ spanId: 'tool1', traceId: 'trace1' }),
+      } as any);
+      const failedRoot = createMockSpan({
+        name: 'supportFlow',
+        spanContext: () => ({ spanId: 'root1', traceId: 'trace1' }),
+      } as any);
+      const okRoot = createMockSpan({
+        name: 'supportFlow',
+        spanContext: () => ({ spanId: 'root2', traceId: 'trace2' }),
+      } as any);
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockImplementation((span: any) =>
+        span.spanContext().spanId === 'tool1'
+          ? { spanType: 'action', subtype: 'tool', state: 'error' }
+          : { spanType: 'flow', isRoot: true, state: 'success' }
+      );
+
+      const exportSpans = (spans: ReadableSpan[]) =>
+        new Promise(resolve => exporter.export(spans, resolve));
+      await exportSpans([failedTool]);
+      expect(mockObservation).not.toHaveBeenCalled();
+      await exportSpans([failedRoot, okRoot]);
+
+      expect(mockObservation).toHaveBeenCalledWith('tool-create', expect.objectContaining({ id: 'tool1' }));
+      expect(mockTrace).toHaveBeenCalledTimes(1);
+      expect(mockTrace).toHaveBeenCalledWith(expect.objectContaining({
+        id: 'trace1',
+        metadata: expect.objectContaining({ sampling: { reason: 'error', sampleRate: 0 } }),
+      }));
+    });
+  });
+
+  describe('span filtering', () => {
+    it('should not export spans rejected by the filter function', (done) => {
+      exporter = new LangfuseExporter({
+        ...config,
+        spanFilter: (span) => span.spanType !== 'action',
+      });
+      const span = createMockSpan({ parentSpanId: 'parent789' });
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockReturnValue({
+        spanType: 'action',
+        isRoot: true,
+      });
+
+      exporter.export([span], (result) => {
+        expect(result.code).toBe(ExportResultCode.SUCCESS);
+        expect(mockSpan).not.toHaveBeenCalled();
+        expect(mockTrace).not.toHaveBeenCalled();
+        done();
+      });
+    });
+
+    it('should reparent children of excluded spans', (done) => {
+      exporter = new LangfuseExporter({
+        ...config,
+        spanFilter: { rules: [{ spanType: 'util', action: 'exclude' }] },
+      });
+      const child = createMockSpan({
+        name: 'gpt-4',
+        parentSpanId: 'util1',
+        spanContext: () => ({ spanId: 'model1', traceId: 'trace456' }),
+      } as any);
+      const util = createMockSpan({
+        name: 'generate',
+        parentSpanId: 'flow1',
+        spanContext: () => ({ spanId: 'util1', traceId: 'trace456' }),
+      } as any);
+      const flow = createMockSpan({
+        name: 'myFlow',
+        spanContext: () => ({ spanId: 'flow1', traceId: 'trace456' }),
+      } as any);
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockImplementation((span: any) => {
+        switch (span.name) {
+          case 'gpt-4':
+            return { spanType: 'model', path: '/model/openai/gpt-4', name: 'gpt-4' };
+          case 'generate':
+            return { spanType: 'util', path: '/flow/myFlow/generate' };
+          default:
+            return { spanType: 'flow', path: '/flow/myFlow', isRoot: true };
+        }
+      });
+
+      exporter.export([child, util, flow], (result) => {
+        expect(result.code).toBe(ExportResultCode.SUCCESS);
+        expect(mockSpan).not.toHaveBeenCalled();
+        expect(mockTrace).toHaveBeenCalledTimes(1);
+        expect(mockGeneration).toHaveBeenCalledWith(expect.objectContaining({ id: 'model1' }));
+        expect(mockGeneration.mock.calls[0][0]).not.toHaveProperty('parentObservationId');
+        done();
+      });
+    });
+  });
+
+  describe('cost calculation', () => {
+    const modelMetadata = {
+      spanType: 'model',
+      path: '/model/openai/gpt-4o',
+      name: 'gpt-4o',
+      input: '{"messages":[]}',
+      output: '{"message":{},"usage":{"inputTokens":1000,"outputTokens":100,"totalTokens":1100}}',
+    };
+
+    it('should send catalog cost details', (done) => {
+      const span = createMockSpan({ parentSpanId: 'parent789' });
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockReturnValue(modelMetadata);
+
+      exporter.export([span], (result) => {
+        expect(result.code).toBe(ExportResultCode.SUCCESS);
+        const generation = mockGeneration.mock.calls[0][0] as any;
+        expect(generation.costDetails.input).toBeCloseTo(0.0025);
+        expect(generation.costDetails.output).toBeCloseTo(0.001);
+        expect(generation.costDetails.total).toBeCloseTo(0.0035);
+        expect(generation.metadata.pricing).toEqual(
+          expect.objectContaining({ source: 'catalog' })
+        );
+        done();
+      });
+    });
+
+    it('should estimate embedding tokens without pricing them', (done) => {
+      const span = createMockSpan({ parentSpanId: 'parent789' });
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockReturnValue({
+        spanType: 'action',
+        path: '/embedder/openai/text-embedding-3-small',
+        name: 'openai/text-embedding-3-small',
+        input: JSON.stringify({ input: [{ content: [{ text: 'a'.repeat(4000) }] }, { content: [{ text: 'b'.repeat(4000) }] }] }),
+        output: JSON.stringify({ embeddings: [{ embedding: [0.1, 0.2, 0.3] }, { embedding: [0.4, 0.5, 0.6] }] }),
+      });
+
+      exporter.export([span], (result) => {
+        expect(result.code).toBe(ExportResultCode.SUCCESS);
+        const [type, embedding] = mockObservation.mock.calls[0] as [string, any];
+        expect(type).toBe('embedding-create');
+        expect(embedding.model).toBe('openai/text-embedding-3-small');
+        expect(embedding.output).toEqual({ embeddings: 2, dimensions: 3 });
+        expect(embedding).not.toHaveProperty('usage');
+        expect(embedding).not.toHaveProperty('costDetails');
+        expect(embedding.metadata).toEqual(expect.objectContaining({
+          provider: 'openai',
+          embedding: { inputCount: 2, inputCharacters: 8000, embeddingCount: 2, dimensions: 3, estimatedInputTokens: 2000 },
+        }));
+        done();
+      });
+    });
+
+    it('should price embedding usage reported by the embedder', (done) => {
+      const span = createMockSpan({ parentSpanId: 'parent789' });
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockReturnValue({
+        spanType: 'action',
+        path: '/embedder/openai/text-embedding-3-small',
+        name: 'openai/text-embedding-3-small',
+        input: JSON.stringify({ input: [{ content: [{ text: 'a'.repeat(4000) }] }] }),
+        output: JSON.stringify({ embeddings: [{ embedding: [0.1, 0.2, 0.3] }], usage: { inputTokens: 2000 } }),
+      });
+
+      exporter.export([span], (result) => {
+        expect(result.code).toBe(ExportResultCode.SUCCESS);
+        const [, embedding] = mockObservation.mock.calls[0] as [string, any];
+        expect(embedding.usage).toEqual({ input: 2000, total: 2000 });
+        expect(embedding.costDetails.total).toBeCloseTo(0.00004);
+        expect(embedding.metadata.embedding).not.toHaveProperty('estimatedInputTokens');
+        done();
+      });
+    });
+
+    it('should let calculateCost wrap the default cost', (done) => {
+      exporter = new LangfuseExporter({
+        ...config,
+        calculateCost: (modelName, usage, context) => (context.defaultCost || 0) * 2,
+      });
+      const span = createMockSpan({ parentSpanId: 'parent789' });
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockReturnValue(modelMetadata);
+
+      exporter.export([span], (result) => {
+        expect(result.code).toBe(ExportResultCode.SUCCESS);
+        const generation = mockGeneration.mock.calls[0][0] as any;
+        expect(generation.totalCost).toBeCloseTo(0.007);
+        expect(generation.costDetails).toEqual({ total: generation.totalCost });
+        done();
+      });
+    });
+  });
+
+  describe('redaction', () => {
+    it('should redact payloads and report the masked count', (done) => {
+      exporter = new LangfuseExporter({
+        ...config,
+        redaction: { detectors: ['email'] },
+      });
+      const span = createMockSpan({ parentSpanId: 'parent789' });
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockReturnValue({
+        spanType: 'model',
+        path: '/model/openai/gpt-4',
+        name: 'gpt-4',
+        input: '{"messages":[{"role":"user","content":[{"text":"I am jane@example.com"}]}]}',
+        output: '{"message":{"role":"model","content":[{"text":"Hi jane@example.com"}]}}',
+      });
+
+      exporter.export([span], (result) => {
+        expect(result.code).toBe(ExportResultCode.SUCCESS);
+        expect(mockGeneration).toHaveBeenCalledWith(
+          expect.objectContaining({
+            input: { messages: [{ role: 'user', content: [{ text: 'I am [REDACTED_EMAIL]' }] }] },
+            output: { message: { role: 'model', content: [{ text: 'Hi [REDACTED_EMAIL]' }] } },
+            metadata: expect.objectContaining({ redactedValues: 2 }),
+          })
+        );
+        done();
+      });
+    });
+
+    it('should redact the status message of a failed observation', (done) => {
+      exporter = new LangfuseExporter({
+        ...config,
+        redaction: { detectors: ['email'] },
+      });
+      const span = createMockSpan({
+        parentSpanId: 'parent789',
+        status: { code: 2, message: 'No account for jane@example.com' },
+      } as any);
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockReturnValue({
+        spanType: 'action',
+        subtype: 'tool',
+        name: 'lookup',
+        state: 'error',
+      });
+
+      exporter.export([span], () => {
+        expect(mockObservation).toHaveBeenCalledWith('tool-create', expect.objectContaining({
+          level: 'ERROR',
+          statusMessage: 'No account for [REDACTED_EMAIL]',
+          metadata: expect.objectContaining({ redactedValues: 1 }),
+        }));
+        done();
+      });
+    });
+  });
+
+  describe('media', () => {
+    it('should replace inline media before sending the generation', (done) => {
+      const sink = { upload: jest.fn(async () => '@@@langfuseMedia:type=image/png|id=media-1|source=base64_data_uri@@@') };
+      exporter = new LangfuseExporter({ ...config, media: { sink } });
+      const span = createMockSpan({ parentSpanId: 'parent789' });
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockReturnValue({
+        spanType: 'model',
+        path: '/model/googleai/gemini-2.5-flash',
+        name: 'gemini-2.5-flash',
+        input: JSON.stringify({
+          messages: [{ role: 'user', content: [{ media: { url: 'data:image/png;base64,iVBORw0KGgo=' } }] }],
+        }),
+      });
+
+      exporter.export([span], (result) => {
+        expect(result.code).toBe(ExportResultCode.SUCCESS);
+        expect(sink.upload).toHaveBeenCalledWith(expect.objectContaining({
+          contentType: 'image/png',
+          traceId: 'trace456',
+          observationId: 'span123',
+          field: 'input',
+        }));
+        expect((mockGeneration.mock.calls[0][0] as any).input).toEqual({
+          messages: [{
+            role: 'user',
+            content: [{ media: { url: '@@@langfuseMedia:type=image/png|id=media-1|source=base64_data_uri@@@' } }],
+          }],
+        });
+        done();
+      });
+    });
+  });
+
+  describe('truncation', () => {
+    it('should truncate oversized payloads and record their original size', (done) => {
+      exporter = new LangfuseExporter({ ...config, truncation: { maxFieldBytes: 500 } });
+      const context = 'Relevant passage. '.repeat(100);
+      const span = createMockSpan({ parentSpanId: 'parent789' });
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockReturnValue({
+        spanType: 'model',
+        path: '/model/openai/gpt-4',
+        name: 'gpt-4',
+        input: JSON.stringify({ messages: [{ role: 'user', content: [{ text: context }] }] }),
+        output: '{"message":{"role":"model","content":[{"text":"Done"}]}}',
+      });
+
+      exporter.export([span], (result) => {
+        expect(result.code).toBe(ExportResultCode.SUCCESS);
+        const generation = mockGeneration.mock.calls[0][0] as any;
+        expect(JSON.stringify(generation.input).length).toBeLessThanOrEqual(500);
+        expect(generation.input.messages[0].content[0].text).toMatch(/chars truncated\]$/);
+        expect(generation.output).toEqual({ message: { role: 'model', content: [{ text: 'Done' }] } });
+        expect(generation.metadata).toEqual(expect.objectContaining({
+          truncated: true,
+          originalSize: { input: expect.any(Number) },
+        }));
+        done();
+      });
+    });
+  });
+
+  describe('spool', () => {
+    it('should keep events on disk until Langfuse accepts them', (done) => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'langfuse-spool-'));
+      exporter = new LangfuseExporter({ ...config, spool: { directory, retryInitialDelayMillis: 60000 } });
+      const span = createMockSpan({ parentSpanId: 'parent789' });
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockReturnValue({
+        spanType: 'tool',
+        path: '/tool/search',
+        name: 'search',
+      });
+      mockResponses = [{ status: 503, body: { message: 'Service unavailable' } }];
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      exporter.export([span], async (result) => {
+        try {
+          expect(result.code).toBe(ExportResultCode.FAILED);
+          const [segment] = fs.readdirSync(directory).filter(file => file.endsWith('.jsonl'));
+          const [line] = fs.readFileSync(path.join(directory, segment), 'utf8').trim().split('\n');
+          expect(JSON.parse(line)).toMatchObject({
+            type: 'tool-create',
+            body: { id: 'span123', traceId: 'trace456', parentObservationId: 'parent789' },
+          });
+          await exporter.shutdown();
+          done();
+        } catch (error) {
+          done(error as Error);
+        } finally {
+          (console.error as jest.Mock).mockRestore();
+          fs.rmSync(directory, { recursive: true, force: true });
+        }
+      });
+    });
+
+    it('should only acknowledge spooled events that were sent', (done) => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'langfuse-spool-'));
+      exporter = new LangfuseExporter({ ...config, spool: { directory, retryInitialDelayMillis: 60000 } });
+      const root = createMockSpan({
+        spanContext: () => ({ spanId: 'root1', traceId: 'trace456' }),
+      } as any);
+      const child = createMockSpan({ parentSpanId: 'root1' });
+      (SpanMetadataExtractor.extractMetadata as jest.Mock).mockImplementation((span: any) =>
+        span.spanContext().spanId === 'root1'
+          ? { spanType: 'flow', path: '/flow/myFlow', name: 'myFlow', isRoot: true }
+          : { spanType: 'tool', path: '/tool/search', name: 'search' }
+      );
+      mockBatchLimit = 1;
+      mockResponses = [{ status: 200, body: { successes: [], errors: [] } }, { status: 503, body: { message: 'Service unavailable' } }];
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      exporter.export([child, root], async (result) => {
+        try {
+          expect(result.code).toBe(ExportResultCode.FAILED);
+          const [ack] = fs.readdirSync(directory).filter(file => file.endsWith('.ack'));
+          expect(fs.readFileSync(path.join(directory, ack), 'utf8').trim().split('\n')).toEqual(['tool-create:span123']);
+          await exporter.shutdown();
+          done();
+        } catch (error) {
+          done(error as Error);
+        } finally {
+          (console.error as jest.Mock).mockRestore();
+          fs.rmSync(directory, { recursive: true, force: true });
+        }
+      });
+    });
+  });
+
   describe('shutdown and flush', () => {
+    it('should send scores for exported traces', async () => {
+      const id = exporter.score({ traceId: 'trace456', observationId: 'span123', name: 'user-feedback', value: true });
+
+      expect(mockScore).toHaveBeenCalledWith({
+        id,
+        traceId: 'trace456',
+        observationId: 'span123',
+        name: 'user-feedback',
+        value: 1,
+        dataType: 'BOOLEAN',
+      });
+    });
+
     it('should shutdown Langfuse client', async () => {
       await exporter.shutdown();
       expect(mockShutdownAsync).toHaveBeenCalledTimes(1);
@@ -0,0 +1,109 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, it, jest } from '@jest/globals';
+import { PluginLogger, serializeFields } from '../src/logger';
+
+function createPinoLogger(level = 'info') {
+  const levels = ['error', 'warn', 'info', 'debug', 'trace'];
+  return {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+    trace: jest.fn(),
+    isLevelEnabled: (candidate: string) => levels.indexOf(candidate) <= levels.indexOf(level),
+  };
+}
+
+describe('PluginLogger', () => {
+  it('should call pino loggers with fields first', () => {
+    const target = createPinoLogger();
+    const logger = PluginLogger.fromConfig({ logger: target }).child({ exportCount: 3 });
+
+    logger.info('Exported spans', { traceId: 'trace1' });
+
+    expect(target.info).toHaveBeenCalledWith({ exportCount: 3, traceId: 'trace1' }, 'Exported spans');
+  });
+
+  it('should call winston loggers with the message first', () => {
+    const target = { ...createPinoLogger(), log: jest.fn(), transports: [] };
+    const logger = PluginLogger.fromConfig({ logger: target, logLevel: 'trace' });
+
+    logger.trace('Span ended', { spanId: 'span1' });
+
+    expect(target.log).toHaveBeenCalledWith('silly', 'Span ended', { spanId: 'span1' });
+  });
+
+  it('should respect the configured level and the target logger level', () => {
+    const target = createPinoLogger('info');
+
+    PluginLogger.fromConfig({ logger: target }).debug('hidden by pino');
+    PluginLogger.fromConfig({ logger: target, logLevel: 'warn' }).info('hidden by logLevel');
+    PluginLogger.fromConfig({ logger: target, logLevel: 'warn' }).warn('shown');
+
+    expect(target.debug).not.toHaveBeenCalled();
+    expect(target.info).not.toHaveBeenCalled();
+    expect(target.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should log warnings and errors to the console by default', () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      const logger = PluginLogger.fromConfig({});
+
+      logger.debug('hidden');
+      logger.warn('Spool is full', { file: 'segment-1.jsonl' });
+
+      expect(log).not.toHaveBeenCalled();
+      expect(warn).toHaveBeenCalledWith('⚠️  [WARNING] Spool is full', { file: 'segment-1.jsonl' });
+    } finally {
+      log.mockRestore();
+      warn.mockRestore();
+    }
+  });
+});
+
+describe('serializeFields', () => {
+  it('should mask secret fields and Langfuse secret keys', () => {
+    const fields = serializeFields({
+      secretKey: 'sk-lf-1234',
+      headers: { Authorization: 'Basic abc' },
+      message: 'invalid key sk-lf-abcd-1234',
+      usage: { inputTokens: 10 },
+    });
+
+    expect(fields).toEqual({
+      secretKey: '[REDACTED]',
+      headers: { Authorization: '[REDACTED]' },
+      message: 'invalid key [REDACTED]',
+      usage: { inputTokens: 10 },
+    });
+  });
+
+  it('should flatten errors and cut circular references', () => {
+    const error: any = new Error('HTTP error');
+    error.response = { status: 401 };
+    const circular: any = { name: 'loop' };
+    circular.self = circular;
+
+    const fields = serializeFields({ error, circular });
+
+    expect(fields.error).toEqual(expect.objectContaining({ name: 'Error', message: 'HTTP error', status: 401 }));
+    expect(fields.circular).toEqual({ name: 'loop', self: '[Circular]' });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { LangfuseMediaSink, MediaProcessor } from '../src/media';
+import { PluginLogger } from '../src/logger';
+import type { IngestionEvent, MediaSink, MediaUpload } from '../src/types';
+
+const PNG = 'data:image/png;base64,iVBORw0KGgo=';
+
+function createEvent(input: unknown): IngestionEvent {
+  return { type: 'generation-create', body: { id: 'gen-1', traceId: 'trace-1', input, output: 'A cat' } };
+}
+
+describe('MediaProcessor', () => {
+  let sink: { upload: jest.Mock<(media: MediaUpload) => Promise<string>> };
+  const logger = new PluginLogger({ level: 'error' });
+
+  beforeEach(() => {
+    sink = { upload: jest.fn(async (media: MediaUpload) => `<media ${media.contentType}>`) };
+  });
+
+  it('should detect data URLs nested in payloads', () => {
+    const processor = new MediaProcessor({}, sink as MediaSink, logger);
+
+    expect(processor.containsMedia(createEvent({ content: [{ media: { url: PNG } }] }))).toBe(true);
+    expect(processor.containsMedia(createEvent({ content: [{ text: 'data: none' }] }))).toBe(false);
+  });
+
+  it('should upload media once per payload and replace it with the sink reference', async () => {
+    const processor = new MediaProcessor({}, sink as MediaSink, logger);
+    const event = createEvent({ content: [{ media: { url: PNG } }, { media: { url: PNG } }] });
+
+    expect(await processor.process(event)).toBe(2);
+
+    expect(sink.upload).toHaveBeenCalledTimes(1);
+    expect(sink.upload).toHaveBeenCalledWith({
+      contentType: 'image/png',
+      content: Buffer.from('iVBORw0KGgo=', 'base64'),
+      sha256Hash: expect.any(String),
+      traceId: 'trace-1',
+      observationId: 'gen-1',
+      field: 'input',
+    });
+    expect(event.body.input).toEqual({ content: [{ media: { url: '<media image/png>' } }, { media: { url: '<media image/png>' } }] });
+    expect(event.body.output).toBe('A cat');
+  });
+
+  it('should strip media in strip mode and above the size limit', async () => {
+    const stripped = createEvent([PNG]);
+    await new MediaProcessor({ mode: 'strip' }, sink as MediaSink, logger).process(stripped);
+    const oversized = createEvent([PNG]);
+    await new MediaProcessor({ maxBytes: 4 }, sink as MediaSink, logger).process(oversized);
+
+    expect(sink.upload).not.toHaveBeenCalled();
+    expect(stripped.body.input).toEqual(['[image/png media removed, 8 bytes]']);
+    expect(oversized.body.input).toEqual(['[image/png media removed, 8 bytes]']);
+  });
+
+  it('should strip media that fails to upload', async () => {
+    sink.upload.mockRejectedValue(new Error('Bucket unavailable'));
+    const event = createEvent(PNG);
+
+    await new MediaProcessor({}, sink as MediaSink, logger).process(event);
+
+    expect(event.body.input).toBe('[image/png media removed, 8 bytes]');
+  });
+});
+
+describe('LangfuseMediaSink', () => {
+  const fetch = global.fetch;
+  let mockFetch: jest.Mock<(url: string, init: any) => Promise<Response>>;
+
+  beforeEach(() => {
+    mockFetch = jest.fn(async (url: string) => {
+      if (url.endsWith('/api/public/media')) {
+        return new Response(JSON.stringify({ mediaId: 'media-1', uploadUrl: 'https://storage.example.com/upload' }));
+      }
+      return new Response(null, { status: 200 });
+    });
+    global.fetch = mockFetch as unknown as typeof global.fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = fetch;
+  });
+
+  it('should upload media and return a Langfuse media reference', async () => {
+    const sink = new LangfuseMediaSink({ baseUrl: 'https://langfuse.example.com/', publicKey: 'pk', secretKey: 'sk' });
+    const content = Buffer.from('iVBORw0KGgo=', 'base64');
+
+    const reference = await sink.upload({
+      contentType: 'image/png', content, sha256Hash: 'hash', traceId: 'trace-1', field: 'input',
+    });
+
+    expect(reference).toBe('@@@langfuseMedia:type=image/png|id=media-1|source=base64_data_uri@@@');
+    expect(mockFetch.mock.calls.map(([url, init]) => [init.method, url])).toEqual([
+      ['POST', 'https://langfuse.example.com/api/public/media'],
+      ['PUT', 'https://storage.example.com/upload'],
+      ['PATCH', 'https://langfuse.example.com/api/public/media/media-1'],
+    ]);
+    expect(mockFetch.mock.calls[0][1].headers.Authorization).toBe(`Basic ${Buffer.from('pk:sk').toString('base64')}`);
+  });
+
+  it('should reject content types Langfuse does not support', async () => {
+    const sink = new LangfuseMediaSink({ publicKey: 'pk', secretKey: 'sk' });
+
+    await expect(sink.upload({
+      contentType: 'model/gltf+json', content: Buffer.from('{}'), sha256Hash: 'hash', traceId: 'trace-1', field: 'output',
+    })).rejects.toThrow('Langfuse does not support media of type model/gltf+json');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should fail uploads that exceed the export timeout', async () => {
+    mockFetch.mockImplementation((_url: string, init: any) => new Promise((_resolve, reject) => {
+      init.signal.addEventListener('abort', () => reject(init.signal.reason));
+    }));
+    const sink = new LangfuseMediaSink({ publicKey: 'pk', secretKey: 'sk', exportTimeoutMillis: 10 });
+
+    await expect(sink.upload({
+      contentType: 'image/png', content: Buffer.from('png'), sha256Hash: 'hash', traceId: 'trace-1', field: 'input',
+    })).rejects.toThrow('Media request to https://cloud.langfuse.com timed out after 10ms');
+  });
+});
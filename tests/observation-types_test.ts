@@ -0,0 +1,46 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { ObservationTypeMapper } from '../src/observation-types';
+
+describe('ObservationTypeMapper', () => {
+  it('should map Genkit action subtypes and span types', () => {
+    const mapper = new ObservationTypeMapper(true);
+
+    expect(mapper.resolve('search', { spanType: 'action', subtype: 'tool' })).toBe('tool');
+    expect(mapper.resolve('docs', { spanType: 'action', subtype: 'retriever' })).toBe('retriever');
+    expect(mapper.resolve('googleai/text-embedding-004', { spanType: 'action', subtype: 'embedder' })).toBe('embedding');
+    expect(mapper.resolve('faithfulness', { spanType: 'action', subtype: 'evaluator' })).toBe('evaluator');
+    expect(mapper.resolve('lookupFlow', { spanType: 'action', subtype: 'flow' })).toBe('chain');
+    expect(mapper.resolve('fetch-order', { spanType: 'flowStep' })).toBe('chain');
+    expect(mapper.resolve('render', { spanType: 'util' })).toBe('span');
+  });
+
+  it('should prefer overrides by action name, then subtype, then span type', () => {
+    const mapper = new ObservationTypeMapper({ supportAgent: 'agent', flow: 'span', util: 'guardrail' });
+
+    expect(mapper.resolve('supportAgent', { name: 'supportAgent', spanType: 'action', subtype: 'flow' })).toBe('agent');
+    expect(mapper.resolve('lookupFlow', { spanType: 'action', subtype: 'flow' })).toBe('span');
+    expect(mapper.resolve('checkInput', { spanType: 'util' })).toBe('guardrail');
+    expect(mapper.override('search', { spanType: 'action', subtype: 'tool' })).toBeUndefined();
+  });
+
+  it('should export everything as spans unless enabled', () => {
+    expect(new ObservationTypeMapper().resolve('search', { spanType: 'action', subtype: 'tool' })).toBe('span');
+    expect(new ObservationTypeMapper(false).resolve('search', { spanType: 'action', subtype: 'tool' })).toBe('span');
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { context, trace } from '@opentelemetry/api';
+import { ExportResultCode, type ExportResult } from '@opentelemetry/core';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+} from '@opentelemetry/sdk-trace-base';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+// Spans go to the OTLP receiver; the ingestion client is never called
+jest.mock('langfuse', () => ({
+  Langfuse: class {
+    on = jest.fn();
+    flushAsync = jest.fn(async () => {});
+    shutdownAsync = jest.fn(async () => {});
+  },
+}));
+
+import { LangfuseExporter } from '../src/exporter';
+import { LANGFUSE_OTLP_TRACES_PATH, toOtlpAttributes } from '../src/otlp';
+
+interface ReceivedRequest {
+  path?: string;
+  authorization?: string;
+  body: any;
+}
+
+/**
+ * Local OTLP/HTTP receiver standing in for Langfuse's OpenTelemetry endpoint.
+ */
+function startReceiver(): Promise<{ server: http.Server; baseUrl: string; requests: ReceivedRequest[] }> {
+  const requests: ReceivedRequest[] = [];
+  const server = http.createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => {
+      requests.push({
+        path: request.url,
+        authorization: request.headers.authorization,
+        body: JSON.parse(Buffer.concat(chunks).toString('utf8')),
+      });
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end('{}');
+    });
+  });
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, baseUrl: `http://127.0.0.1:${port}`, requests });
+    });
+  });
+}
+
+/**
+ * Record a Genkit flow that calls a model.
+ */
+function recordFlow(): ReadableSpan[] {
+  const memory = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider();
+  provider.addSpanProcessor(new SimpleSpanProcessor(memory));
+  const tracer = provider.getTracer('genkit');
+
+  const flow = tracer.startSpan('chatFlow', {
+    attributes: {
+      'genkit:type': 'action',
+      'genkit:metadata:subtype': 'flow',
+      'genkit:name': 'chatFlow',
+      'genkit:path': '/{chatFlow,t:flow}',
+      'genkit:isRoot': true,
+      'genkit:input': JSON.stringify('Hello'),
+      'genkit:output': JSON.stringify('Hi there'),
+      'genkit:state': 'success',
+    },
+  });
+  const model = tracer.startSpan('googleai/gemini-2.5-flash', {
+    attributes: {
+      'genkit:type': 'action',
+      'genkit:metadata:subtype': 'model',
+      'genkit:name': 'googleai/gemini-2.5-flash',
+      'genkit:path': '/{chatFlow,t:flow}/{googleai/gemini-2.5-flash,t:action,s:model}',
+      'genkit:input': JSON.stringify({
+        messages: [{ role: 'user', content: [{ text: 'Hello' }] }],
+        config: { temperature: 0.2 },
+      }),
+      'genkit:output': JSON.stringify({
+        message: { role: 'model', content: [{ text: 'Hi there' }] },
+        usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+      }),
+      'genkit:state': 'success',
+    },
+  }, trace.setSpan(context.active(), flow));
+  model.end();
+  flow.end();
+  return memory.getFinishedSpans();
+}
+
+function exportSpans(exporter: LangfuseExporter, spans: ReadableSpan[]): Promise<ExportResult> {
+  return new Promise(resolve => exporter.export(spans, resolve));
+}
+
+function attributesOf(span: any): Record<string, any> {
+  return Object.fromEntries(span.attributes.map((attribute: any) => {
+    const value = attribute.value;
+    return [attribute.key, value.stringValue ?? value.intValue ?? value.doubleValue ?? value.boolValue ??
+      value.arrayValue?.values.map((item: any) => item.stringValue)];
+  }));
+}
+
+describe('toOtlpAttributes', () => {
+  it('maps a trace to Langfuse trace attributes', () => {
+    const attributes = toOtlpAttributes({
+      type: 'trace-create',
+      body: {
+        id: 'trace-1',
+        name: 'chatFlow',
+        input: 'Hello',
+        output: { text: 'Hi there' },
+        userId: 'user-1',
+        sessionId: 'session-1',
+        tags: ['chat', 'error'],
+        metadata: { genkit: true },
+        environment: 'production',
+        release: 'abc123',
+        version: '1.2.0',
+      },
+    });
+
+    expect(attributes).toEqual({
+      'langfuse.trace.name': 'chatFlow',
+      'langfuse.trace.input': 'Hello',
+      'langfuse.trace.output': '{"text":"Hi there"}',
+      'langfuse.trace.metadata': '{"genkit":true}',
+      'langfuse.trace.tags': ['chat', 'error'],
+      'langfuse.user.id': 'user-1',
+      'langfuse.session.id': 'session-1',
+      'langfuse.environment': 'production',
+      'langfuse.release': 'abc123',
+      'langfuse.version': '1.2.0',
+    });
+  });
+
+  it('maps a generation to observation and gen_ai attributes', () => {
+    const attributes = toOtlpAttributes({
+      type: 'generation-create',
+      body: {
+        id: 'span-1',
+        traceId: 'trace-1',
+        model: 'gemini-2.5-flash',
+        modelParameters: { temperature: 0.2 },
+        usageDetails: { input: 10, output: 5, total: 15 },
+        costDetails: { input: 0.001, output: 0.002, total: 0.003 },
+        completionStartTime: new Date('2025-01-01T00:00:01.000Z'),
+        level: 'ERROR',
+        statusMessage: 'Quota exceeded',
+      },
+    });
+
+    expect(attributes).toEqual({
+      'langfuse.observation.type': 'generation',
+      'langfuse.observation.level': 'ERROR',
+      'langfuse.observation.status_message': 'Quota exceeded',
+      'langfuse.observation.completion_start_time': '2025-01-01T00:00:01.000Z',
+      'langfuse.observation.model.name': 'gemini-2.5-flash',
+      'gen_ai.request.model': 'gemini-2.5-flash',
+      'langfuse.observation.model.parameters': '{"temperature":0.2}',
+      'langfuse.observation.usage_details': '{"input":10,"output":5,"total":15}',
+      'gen_ai.usage.input_tokens': 10,
+      'gen_ai.usage.output_tokens': 5,
+      'gen_ai.usage.total_tokens': 15,
+      'langfuse.observation.cost_details': '{"input":0.001,"output":0.002,"total":0.003}',
+      'gen_ai.usage.cost': 0.003,
+    });
+  });
+});
+
+describe('OTLP transport', () => {
+  let receiver: Awaited<ReturnType<typeof startReceiver>>;
+  let exporter: LangfuseExporter;
+
+  beforeEach(async () => {
+    receiver = await startReceiver();
+    exporter = new LangfuseExporter({
+      publicKey: 'pk-lf-test',
+      secretKey: 'sk-lf-test',
+      baseUrl: receiver.baseUrl,
+      transport: 'otlp',
+      environment: 'staging',
+    });
+  });
+
+  afterEach(async () => {
+    await exporter.shutdown();
+    await new Promise(resolve => receiver.server.close(resolve));
+  });
+
+  it('sends Genkit spans with Langfuse attributes to the OTLP endpoint', async () => {
+    const spans = recordFlow();
+    const result = await exportSpans(exporter, spans);
+
+    expect(result.code).toBe(ExportResultCode.SUCCESS);
+    expect(receiver.requests).toHaveLength(1);
+    const [request] = receiver.requests;
+    expect(request.path).toBe(LANGFUSE_OTLP_TRACES_PATH);
+    expect(request.authorization).toBe(`Basic ${Buffer.from('pk-lf-test:sk-lf-test').toString('base64')}`);
+
+    const sent = request.body.resourceSpans.flatMap((resourceSpans: any) =>
+      resourceSpans.scopeSpans.flatMap((scopeSpans: any) => scopeSpans.spans));
+    const flow = sent.find((span: any) => span.name === 'chatFlow');
+    const model = sent.find((span: any) => span.name === 'googleai/gemini-2.5-flash');
+
+    expect(attributesOf(flow)).toMatchObject({
+      'langfuse.trace.name': 'chatFlow',
+      'langfuse.trace.input': 'Hello',
+      'langfuse.trace.output': 'Hi there',
+      'langfuse.environment': 'staging',
+    });
+    expect(flow.parentSpanId).toBeFalsy();
+
+    expect(model.parentSpanId).toBe(flow.spanId);
+    expect(model.traceId).toBe(flow.traceId);
+    expect(attributesOf(model)).toMatchObject({
+      'langfuse.observation.type': 'generation',
+      'langfuse.observation.model.name': 'googleai/gemini-2.5-flash',
+      'gen_ai.request.model': 'googleai/gemini-2.5-flash',
+      'gen_ai.usage.input_tokens': 10,
+      'gen_ai.usage.output_tokens': 5,
+      'gen_ai.usage.total_tokens': 15,
+      'langfuse.environment': 'staging',
+    });
+
+    // Genkit attributes are replaced, so redaction applies to what is sent
+    expect(Object.keys(attributesOf(model)).some(key => key.startsWith('genkit:'))).toBe(false);
+  });
+
+  it('sends the spans of concurrent exports in separate requests', async () => {
+    const first = recordFlow();
+    const second = recordFlow();
+
+    const results = await Promise.all([exportSpans(exporter, first), exportSpans(exporter, second)]);
+
+    expect(results.map(result => result.code)).toEqual([ExportResultCode.SUCCESS, ExportResultCode.SUCCESS]);
+    expect(receiver.requests).toHaveLength(2);
+    const traceIds = receiver.requests.map(request => [...new Set(
+      request.body.resourceSpans.flatMap((resourceSpans: any) =>
+        resourceSpans.scopeSpans.flatMap((scopeSpans: any) => scopeSpans.spans.map((span: any) => span.traceId)))
+    )]);
+    expect(traceIds).toHaveLength(2);
+    expect(traceIds[0]).toHaveLength(1);
+    expect(traceIds[1]).toHaveLength(1);
+    expect(traceIds[0][0]).not.toBe(traceIds[1][0]);
+  });
+
+  it('reports a failed export when the endpoint rejects the spans', async () => {
+    receiver.server.removeAllListeners('request');
+    receiver.server.on('request', (_request, response) => {
+      response.writeHead(401);
+      response.end();
+    });
+
+    const result = await exportSpans(exporter, recordFlow());
+
+    expect(result.code).toBe(ExportResultCode.FAILED);
+  });
+});
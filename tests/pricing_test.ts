@@ -0,0 +1,108 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { ModelPricing } from '../src/pricing';
+
+describe('ModelPricing', () => {
+  describe('findPrice', () => {
+    it('should find catalog prices by provider and model', () => {
+      const pricing = new ModelPricing();
+
+      const resolved = pricing.findPrice('openai', 'gpt-4o-mini');
+
+      expect(resolved).toEqual({
+        price: expect.objectContaining({ input: 0.15, output: 0.6 }),
+        source: 'catalog',
+      });
+    });
+
+    it('should parse the provider from Genkit model names', () => {
+      const pricing = new ModelPricing();
+
+      const resolved = pricing.findPrice('unknown', 'googleai/gemini-2.0-flash');
+
+      expect(resolved?.price.input).toBe(0.1);
+    });
+
+    it('should match the longest model prefix', () => {
+      const pricing = new ModelPricing();
+
+      expect(pricing.findPrice('openai', 'gpt-4o-2024-08-06')?.price.input).toBe(2.5);
+      expect(pricing.findPrice('openai', 'gpt-4o-mini-2024-07-18')?.price.input).toBe(0.15);
+      expect(pricing.findPrice('googleai', 'gemini-2.5-flash-lite')?.price.input).toBe(0.1);
+      expect(pricing.findPrice('vertexai', 'claude-sonnet-4@20250514')?.price.input).toBe(3);
+    });
+
+    it('should pick the price effective at the given date', () => {
+      const pricing = new ModelPricing();
+
+      expect(pricing.findPrice('openai', 'o3', new Date('2025-05-01'))?.price.input).toBe(10);
+      expect(pricing.findPrice('openai', 'o3', new Date('2025-07-01'))?.price.input).toBe(2);
+    });
+
+    it('should prefer user overrides', () => {
+      const pricing = new ModelPricing({
+        overrides: {
+          'openai/gpt-4o': { input: 1, output: 2 },
+          'my-finetune': [
+            { input: 5, output: 5 },
+            { input: 3, output: 3, effectiveFrom: '2025-01-01' },
+          ],
+        },
+      });
+
+      expect(pricing.findPrice('openai', 'gpt-4o')).toEqual({
+        price: { input: 1, output: 2 },
+        source: 'override',
+      });
+      expect(pricing.findPrice('custom', 'my-finetune-v2', new Date('2025-02-01'))?.price.input).toBe(3);
+    });
+
+    it('should return undefined for unknown models', () => {
+      expect(new ModelPricing().findPrice('ollama', 'llama3')).toBeUndefined();
+      expect(new ModelPricing({ disableCatalog: true }).findPrice('openai', 'gpt-4o')).toBeUndefined();
+    });
+  });
+
+  describe('calculate', () => {
+    it('should price input and output tokens', () => {
+      const cost = ModelPricing.calculate({ input: 2, output: 8 }, {
+        inputTokens: 1_000_000,
+        outputTokens: 500_000,
+        totalTokens: 1_500_000,
+      });
+
+      expect(cost).toEqual({ input: 2, output: 4, total: 6 });
+    });
+
+    it('should price cached input and thinking tokens separately', () => {
+      const cost = ModelPricing.calculate({ input: 1, output: 4, cachedInput: 0.25, thinking: 10 }, {
+        inputTokens: 1_000_000,
+        outputTokens: 1_000_000,
+        totalTokens: 2_500_000,
+        cachedInputTokens: 400_000,
+        thinkingTokens: 500_000,
+      });
+
+      expect(cost.input).toBeCloseTo(0.6);
+      expect(cost.input_cached_tokens).toBeCloseTo(0.1);
+      expect(cost.output).toBeCloseTo(4);
+      expect(cost.output_reasoning_tokens).toBeCloseTo(5);
+      expect(cost.total).toBeCloseTo(9.7);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, it, jest } from '@jest/globals';
+import { BasicTracerProvider, InMemorySpanExporter, type ReadableSpan } from '@opentelemetry/sdk-trace-base';
+import type { Genkit } from 'genkit';
+import { Langfuse, type LangfusePromptClient } from 'langfuse';
+import { SpanMetadataExtractor } from '../src/metadata-extractor';
+import {
+  getActivePromptReference,
+  LangfusePromptManager,
+  toDotprompt,
+  withLangfusePrompt,
+} from '../src/prompts';
+import { LangfuseSpanProcessor } from '../src/span-processor';
+
+function createPrompt(overrides: Partial<LangfusePromptClient> = {}): LangfusePromptClient {
+  return {
+    name: 'support-answer',
+    version: 3,
+    type: 'chat',
+    isFallback: false,
+    config: { model: 'googleai/gemini-2.5-flash', temperature: 0.2 },
+    prompt: [
+      { role: 'system', content: 'You answer questions about {{product}}.' },
+      { type: 'placeholder', name: 'history' },
+      { role: 'user', content: '{{question}}' },
+      { role: 'assistant', content: 'Happy to help.' },
+    ],
+    ...overrides,
+  } as unknown as LangfusePromptClient;
+}
+
+function createManager(prompt: LangfusePromptClient) {
+  const client = new Langfuse({ publicKey: 'pk-lf-test', secretKey: 'sk-lf-test' });
+  const getPrompt = jest.spyOn(client, 'getPrompt').mockResolvedValue(prompt as any);
+  return { manager: new LangfusePromptManager(client), getPrompt };
+}
+
+function createGenkit() {
+  const executable: any = jest.fn(async () => getActivePromptReference());
+  executable.ref = { name: 'support-answer' };
+  executable.stream = jest.fn(() => getActivePromptReference());
+  executable.render = jest.fn();
+  executable.asTool = jest.fn();
+  const ai = { definePrompt: jest.fn(() => executable) };
+  return { ai: ai as unknown as Genkit, definePrompt: ai.definePrompt };
+}
+
+describe('LangfusePromptManager', () => {
+  it('should fetch prompts with caching and fallback options', async () => {
+    const { manager, getPrompt } = createManager(createPrompt());
+
+    await manager.getPrompt('support-answer', {
+      label: 'staging',
+      type: 'chat',
+      cacheTtlSeconds: 300,
+      fallback: [{ role: 'user', content: '{{question}}' }],
+    });
+
+    expect(getPrompt).toHaveBeenCalledWith('support-answer', undefined, {
+      label: 'staging',
+      type: 'chat',
+      cacheTtlSeconds: 300,
+      fallback: [{ role: 'user', content: '{{question}}' }],
+    });
+  });
+
+  it('should define a Genkit prompt from a chat prompt', async () => {
+    const { manager } = createManager(createPrompt());
+    const { ai, definePrompt } = createGenkit();
+
+    await manager.definePrompt(ai, 'support-answer', { type: 'chat', config: { maxOutputTokens: 100 } });
+
+    expect(definePrompt).toHaveBeenCalledWith({
+      name: 'support-answer',
+      model: 'googleai/gemini-2.5-flash',
+      config: { temperature: 0.2, maxOutputTokens: 100 },
+      messages: [
+        '{{role "system"}}\nYou answer questions about {{product}}.',
+        '{{history}}',
+        '{{role "user"}}\n{{question}}',
+        '{{role "model"}}\nHappy to help.',
+      ].join('\n'),
+    });
+  });
+
+  it('should run the prompt with the prompt reference active', async () => {
+    const { manager } = createManager(createPrompt());
+    const { ai } = createGenkit();
+
+    const prompt = await manager.definePrompt(ai, 'support-answer', { type: 'chat' });
+
+    expect(await prompt({ question: 'Hi' })).toEqual({ name: 'support-answer', version: 3, isFallback: false });
+    expect(prompt.stream({ question: 'Hi' })).toEqual({ name: 'support-answer', version: 3, isFallback: false });
+    expect(prompt.ref).toEqual({ name: 'support-answer' });
+    expect(getActivePromptReference()).toBeUndefined();
+  });
+});
+
+describe('toDotprompt', () => {
+  it('should put the model config in the front matter', () => {
+    const prompt = createPrompt({ type: 'text', prompt: 'Answer {{question}}' } as any);
+
+    expect(toDotprompt(prompt)).toBe([
+      '---',
+      'model: "googleai/gemini-2.5-flash"',
+      'config: {"temperature":0.2}',
+      '---',
+      'Answer {{question}}',
+    ].join('\n'));
+  });
+});
+
+describe('LangfuseSpanProcessor', () => {
+  function startSpan(fn: (start: () => ReadableSpan) => ReadableSpan): ReadableSpan {
+    const provider = new BasicTracerProvider();
+    provider.addSpanProcessor(new LangfuseSpanProcessor(new InMemorySpanExporter()));
+    const tracer = provider.getTracer('test');
+    return fn(() => {
+      const span = tracer.startSpan('generate');
+      span.end();
+      return span as unknown as ReadableSpan;
+    });
+  }
+
+  it('should record the active prompt on spans', () => {
+    const span = startSpan(start => withLangfusePrompt(createPrompt(), start));
+
+    const metadata = SpanMetadataExtractor.extractMetadata(span);
+    expect(metadata.promptName).toBe('support-answer');
+    expect(metadata.promptVersion).toBe(3);
+  });
+
+  it('should not link fallback prompts', () => {
+    const span = startSpan(start => withLangfusePrompt(createPrompt({ isFallback: true } as any), start));
+
+    expect(SpanMetadataExtractor.extractMetadata(span).promptName).toBeUndefined();
+  });
+});
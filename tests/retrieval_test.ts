@@ -0,0 +1,53 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { formatRetrieval } from '../src/retrieval';
+
+const request = { query: { content: [{ text: 'How do I reset my password?' }] }, options: { k: 2 } };
+const response = {
+  documents: [
+    { content: [{ text: 'Open settings and choose Reset password.' }], metadata: { id: 'kb-12', score: 0.91, source: 'kb' } },
+    { content: [{ text: 'Passwords expire after 90 days.' }, { media: { url: 'https://example.com/a.png', contentType: 'image/png' } }], metadata: { docId: 7, score: 0.62 } },
+  ],
+};
+
+describe('formatRetrieval', () => {
+  it('should extract the query, documents and scores', () => {
+    expect(formatRetrieval(request, response, 120)).toEqual({
+      input: { query: 'How do I reset my password?', options: { k: 2 } },
+      output: {
+        count: 2,
+        documents: [
+          { id: 'kb-12', text: 'Open settings and choose Reset password.', score: 0.91, metadata: { id: 'kb-12', score: 0.91, source: 'kb' } },
+          { id: '7', text: 'Passwords expire after 90 days.[image/png]', score: 0.62, metadata: { docId: 7, score: 0.62 } },
+        ],
+      },
+      stats: { documentCount: 2, latencyMs: 120, maxScore: 0.91, minScore: 0.62, meanScore: expect.closeTo(0.765, 5) },
+    });
+  });
+
+  it('should shorten long document text', () => {
+    const result = formatRetrieval(request, { documents: [{ content: [{ text: 'x'.repeat(50) }] }] }, 5, { maxTextLength: 10 });
+
+    expect(result!.output.documents).toEqual([{ text: 'xxxxxxxxxx…' }]);
+    expect(result!.stats).toEqual({ documentCount: 1, latencyMs: 5 });
+  });
+
+  it('should ignore payloads that are not retriever responses', () => {
+    expect(formatRetrieval(request, { answer: 'none' }, 5)).toBeUndefined();
+  });
+});
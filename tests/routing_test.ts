@@ -0,0 +1,227 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { ExportResultCode, type ExportResult } from '@opentelemetry/core';
+import type { ReadableSpan } from '@opentelemetry/sdk-trace-base';
+import { resolveConfig } from '../src/config';
+import type { LangfuseConfig } from '../src/types';
+
+// One mock exporter per destination, recording the spans it receives
+const mockExporters: Array<{ config: LangfuseConfig; spans: string[]; result: ExportResult; exporter: any }> = [];
+
+jest.mock('../src/exporter', () => ({
+  LangfuseExporter: jest.fn().mockImplementation((config: any) => {
+    const entry: any = { config, spans: [], result: { code: 0 } };
+    entry.exporter = {
+      export: jest.fn((spans: ReadableSpan[], callback: (result: ExportResult) => void) => {
+        entry.spans.push(...spans.map(span => span.name));
+        callback(entry.result);
+      }),
+      score: jest.fn((score: any) => `score-${score.traceId}`),
+      shutdown: jest.fn(async () => undefined),
+      forceFlush: jest.fn(async () => undefined),
+    };
+    mockExporters.push(entry);
+    return entry.exporter;
+  }),
+}));
+
+import { RoutingExporter } from '../src/routing';
+
+function createSpan(name: string, traceId: string, attributes: Record<string, unknown> = {}): ReadableSpan {
+  return {
+    name,
+    spanContext: () => ({ spanId: `${name}-id`, traceId }),
+    parentSpanId: attributes['genkit:isRoot'] ? undefined : 'parent',
+    attributes,
+  } as any as ReadableSpan;
+}
+
+const config: LangfuseConfig = {
+  publicKey: 'pk-main',
+  secretKey: 'sk-main',
+  spool: { directory: '/tmp/langfuse-spool' },
+  destinations: {
+    billing: { publicKey: 'pk-billing', secretKey: 'sk-billing', baseUrl: 'https://eu.langfuse.example' },
+    acme: { publicKey: 'pk-acme', secretKey: 'sk-acme' },
+  },
+  routing: [
+    { destination: 'billing', flowName: 'billingFlow' },
+    { destination: 'acme', tenant: ['acme', 'acme-eu'] },
+  ],
+};
+
+function exportSpans(exporter: RoutingExporter, spans: ReadableSpan[]): Promise<ExportResult> {
+  return new Promise(resolve => exporter.export(spans, resolve));
+}
+
+function destination(publicKey: string) {
+  return mockExporters.find(entry => entry.config.publicKey === publicKey)!;
+}
+
+describe('RoutingExporter', () => {
+  beforeEach(() => {
+    mockExporters.length = 0;
+  });
+
+  it('should create an exporter per destination with inherited options', () => {
+    new RoutingExporter(config);
+
+    expect(mockExporters).toHaveLength(3);
+    expect(destination('pk-main').config).not.toHaveProperty('routing');
+    expect(destination('pk-billing').config).toMatchObject({
+      secretKey: 'sk-billing',
+      baseUrl: 'https://eu.langfuse.example',
+      spool: { directory: '/tmp/langfuse-spool/billing' },
+    });
+  });
+
+  it('should hold back spans until the root of their trace is exported', async () => {
+    const exporter = new RoutingExporter(config);
+
+    const result = await exportSpans(exporter, [
+      createSpan('charge', 'trace1', { 'genkit:path': '/{billingFlow,t:flow}/{charge,t:action}' }),
+      createSpan('lookup', 'trace2', { 'genkit:path': '/{supportFlow,t:flow}/{lookup,t:action}' }),
+      createSpan('billingFlow', 'trace1', { 'genkit:isRoot': true, 'genkit:path': '/{billingFlow,t:flow}' }),
+    ]);
+    await exportSpans(exporter, [createSpan('supportFlow', 'trace2', { 'genkit:isRoot': true })]);
+
+    expect(result.code).toBe(ExportResultCode.SUCCESS);
+    expect(destination('pk-billing').spans).toEqual(['charge', 'billingFlow']);
+    expect(destination('pk-main').spans).toEqual(['lookup', 'supportFlow']);
+    expect(exporter.destinationOf('trace1')).toBe('billing');
+    expect(exporter.bufferedSpans).toBe(0);
+  });
+
+  it('should send spans ending after the root to the destination of their trace', async () => {
+    const exporter = new RoutingExporter(config);
+    await exportSpans(exporter, [createSpan('billingFlow', 'trace1', { 'genkit:isRoot': true, 'genkit:path': '/{billingFlow,t:flow}' })]);
+
+    await exportSpans(exporter, [createSpan('audit', 'trace1')]);
+
+    expect(destination('pk-billing').spans).toEqual(['billingFlow', 'audit']);
+  });
+
+  it('should match path rules against the root span', async () => {
+    const exporter = new RoutingExporter({
+      ...config,
+      routing: [{ destination: 'billing', path: '/{billingFlow,t:flow}' }],
+    });
+
+    await exportSpans(exporter, [
+      createSpan('charge', 'trace1', { 'genkit:path': '/{billingFlow,t:flow}/{charge,t:action}' }),
+      createSpan('billingFlow', 'trace1', { 'genkit:isRoot': true, 'genkit:path': '/{billingFlow,t:flow}' }),
+    ]);
+
+    expect(destination('pk-billing').spans).toEqual(['charge', 'billingFlow']);
+  });
+
+  it('should route by a tenant set inside the flow', async () => {
+    const exporter = new RoutingExporter(config);
+
+    await exportSpans(exporter, [
+      createSpan('lookup', 'trace1', { 'langfuse.trace.metadata': JSON.stringify({ tenant: 'acme-eu' }) }),
+      createSpan('supportFlow', 'trace1', { 'genkit:isRoot': true }),
+    ]);
+
+    expect(destination('pk-acme').spans).toEqual(['lookup', 'supportFlow']);
+  });
+
+  it('should report a failure of any destination', async () => {
+    const exporter = new RoutingExporter(config);
+    const error = new Error('rejected');
+    destination('pk-billing').result = { code: ExportResultCode.FAILED, error };
+
+    const result = await exportSpans(exporter, [
+      createSpan('billingFlow', 'trace1', { 'genkit:isRoot': true, 'genkit:path': '/{billingFlow,t:flow}' }),
+      createSpan('lookup', 'trace2', { 'genkit:isRoot': true }),
+    ]);
+
+    expect(result).toEqual({ code: ExportResultCode.FAILED, error });
+    expect(destination('pk-main').spans).toEqual(['lookup']);
+  });
+
+  it('should route traces whose root has not arrived on flush', async () => {
+    const exporter = new RoutingExporter(config);
+    await exportSpans(exporter, [
+      createSpan('charge', 'trace1', { 'genkit:path': '/{billingFlow,t:flow}/{charge,t:action}' }),
+    ]);
+    expect(destination('pk-billing').spans).toEqual([]);
+
+    await exporter.forceFlush();
+
+    expect(destination('pk-billing').spans).toEqual(['charge']);
+    expect(exporter.bufferedSpans).toBe(0);
+  });
+
+  it('should route traces that wait too long for their root', async () => {
+    let now = 0;
+    const exporter = new RoutingExporter(config, undefined, () => now);
+    await exportSpans(exporter, [createSpan('lookup', 'trace1')]);
+
+    now = 300001;
+    await exportSpans(exporter, [createSpan('lookup', 'trace2')]);
+
+    expect(destination('pk-main').spans).toEqual(['lookup']);
+    expect(exporter.destinationOf('trace1')).toBe('default');
+    expect(exporter.bufferedSpans).toBe(1);
+  });
+
+  it('should send scores to the project of their trace', async () => {
+    const exporter = new RoutingExporter(config);
+    await exportSpans(exporter, [createSpan('billingFlow', 'trace1', { 'genkit:isRoot': true, 'genkit:name': 'billingFlow', 'genkit:type': 'flow' })]);
+
+    exporter.score({ traceId: 'trace1', name: 'quality', value: 1 });
+    exporter.score({ traceId: 'unknown', name: 'quality', value: 1 });
+
+    expect(destination('pk-billing').exporter.score).toHaveBeenCalledWith(expect.objectContaining({ traceId: 'trace1' }));
+    expect(destination('pk-main').exporter.score).toHaveBeenCalledWith(expect.objectContaining({ traceId: 'unknown' }));
+  });
+
+  it('should hold scores of a trace until its root is routed', async () => {
+    const exporter = new RoutingExporter(config);
+    await exportSpans(exporter, [createSpan('charge', 'trace1', { 'genkit:path': '/{billingFlow,t:flow}/{charge,t:action}' })]);
+
+    const id = exporter.score({ traceId: 'trace1', name: 'quality', value: 1 });
+    expect(destination('pk-main').exporter.score).not.toHaveBeenCalled();
+
+    await exportSpans(exporter, [createSpan('billingFlow', 'trace1', { 'genkit:isRoot': true, 'genkit:path': '/{billingFlow,t:flow}' })]);
+
+    expect(destination('pk-billing').exporter.score).toHaveBeenCalledWith(
+      expect.objectContaining({ id, traceId: 'trace1', name: 'quality' })
+    );
+    expect(destination('pk-main').exporter.score).not.toHaveBeenCalled();
+  });
+
+  it('should flush and shut down every destination', async () => {
+    const exporter = new RoutingExporter(config);
+
+    await exporter.forceFlush();
+    await exporter.shutdown();
+
+    for (const entry of mockExporters) {
+      expect(entry.exporter.forceFlush).toHaveBeenCalled();
+      expect(entry.exporter.shutdown).toHaveBeenCalled();
+    }
+  });
+
+  it('should reject rules for unknown destinations', () => {
+    const routing = [{ destination: 'missing' }];
+
+    expect(() => resolveConfig({ ...config, routing })).toThrow('routing.0.destination: Unknown destination "missing"');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { trace, TraceFlags, type Span } from '@opentelemetry/api';
+import {
+  createScoreBody,
+  getCurrentObservationId,
+  getCurrentTraceId,
+  score,
+  setDefaultScoreTarget,
+} from '../src/scores';
+
+describe('createScoreBody', () => {
+  it('should infer the data type from the value', () => {
+    expect(createScoreBody({ traceId: 't1', name: 'accuracy', value: 0.9 })).toMatchObject({
+      value: 0.9,
+      dataType: 'NUMERIC',
+    });
+    expect(createScoreBody({ traceId: 't1', name: 'thumbs', value: false })).toMatchObject({
+      value: 0,
+      dataType: 'BOOLEAN',
+    });
+    expect(createScoreBody({ traceId: 't1', name: 'tone', value: 'friendly' })).toMatchObject({
+      value: 'friendly',
+      dataType: 'CATEGORICAL',
+    });
+  });
+
+  it('should keep the given ID so scores can be updated', () => {
+    const body = createScoreBody({
+      id: 'feedback-42',
+      traceId: 't1',
+      observationId: 's1',
+      name: 'thumbs',
+      value: 1,
+      dataType: 'BOOLEAN',
+      comment: 'Great answer',
+    });
+
+    expect(body).toEqual({
+      id: 'feedback-42',
+      traceId: 't1',
+      observationId: 's1',
+      name: 'thumbs',
+      value: 1,
+      dataType: 'BOOLEAN',
+      comment: 'Great answer',
+    });
+  });
+
+  it('should reject values that do not match the data type', () => {
+    expect(() => createScoreBody({ traceId: 't1', name: 'thumbs', value: 2, dataType: 'BOOLEAN' }))
+      .toThrow('Invalid value 2 for BOOLEAN score thumbs');
+    expect(() => createScoreBody({ traceId: 't1', name: 'accuracy', value: 'high', dataType: 'NUMERIC' }))
+      .toThrow(TypeError);
+    expect(() => createScoreBody({ traceId: '', name: 'accuracy', value: 1 }))
+      .toThrow('Score traceId is required');
+  });
+});
+
+describe('score', () => {
+  afterEach(() => {
+    setDefaultScoreTarget(undefined);
+  });
+
+  it('should send scores to the exporter of the plugin', () => {
+    const target = { score: jest.fn(() => 'score-1') };
+    setDefaultScoreTarget(target);
+
+    expect(score({ traceId: 't1', name: 'thumbs', value: true })).toBe('score-1');
+    expect(target.score).toHaveBeenCalledWith({ traceId: 't1', name: 'thumbs', value: true });
+  });
+
+  it('should fail when telemetry is not enabled', () => {
+    expect(() => score({ traceId: 't1', name: 'thumbs', value: true }))
+      .toThrow('Langfuse telemetry is not enabled');
+  });
+});
+
+describe('getCurrentTraceId', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should return the IDs of the active span', () => {
+    jest.spyOn(trace, 'getActiveSpan').mockReturnValue({
+      spanContext: () => ({
+        traceId: '0af7651916cd43dd8448eb211c80319c',
+        spanId: 'b7ad6b7169203331',
+        traceFlags: TraceFlags.SAMPLED,
+      }),
+    } as Span);
+
+    expect(getCurrentTraceId()).toBe('0af7651916cd43dd8448eb211c80319c');
+    expect(getCurrentObservationId()).toBe('b7ad6b7169203331');
+  });
+
+  it('should return undefined outside of a flow', () => {
+    expect(getCurrentTraceId()).toBeUndefined();
+    expect(getCurrentObservationId()).toBeUndefined();
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import type { ReadableSpan } from '@opentelemetry/sdk-trace-base';
+import { SpanEventConverter } from '../src/span-events';
+
+function createSpan(events: any[]): ReadableSpan {
+  return {
+    name: 'weatherFlow',
+    spanContext: () => ({ spanId: 'span1', traceId: 'trace1' }),
+    events,
+  } as any as ReadableSpan;
+}
+
+describe('SpanEventConverter', () => {
+  it('should accept all event names by default', () => {
+    const converter = new SpanEventConverter();
+
+    expect(converter.accepts('cache.miss')).toBe(true);
+    expect(converter.accepts('exception')).toBe(true);
+  });
+
+  it('should accept no event names when disabled', () => {
+    expect(new SpanEventConverter(false).accepts('cache.miss')).toBe(false);
+  });
+
+  it('should filter event names with wildcards, exclusions first', () => {
+    const converter = new SpanEventConverter({ include: ['cache.*', 'retry'], exclude: ['cache.hit'] });
+
+    expect(converter.accepts('cache.miss')).toBe(true);
+    expect(converter.accepts('retry')).toBe(true);
+    expect(converter.accepts('cache.hit')).toBe(false);
+    expect(converter.accepts('retrying')).toBe(false);
+  });
+
+  it('should convert events with stable ids, timestamps and attributes', () => {
+    const span = createSpan([
+      { name: 'cache.miss', time: [1700000000, 500000000], attributes: { key: 'paris' } },
+      { name: 'retry', time: [1700000001, 0] },
+    ]);
+
+    expect(new SpanEventConverter().convert(span, 'span1')).toEqual([
+      {
+        id: 'span1-event-0',
+        traceId: 'trace1',
+        parentObservationId: 'span1',
+        name: 'cache.miss',
+        startTime: new Date(1700000000500),
+        metadata: { key: 'paris', spanName: 'weatherFlow' },
+      },
+      {
+        id: 'span1-event-1',
+        traceId: 'trace1',
+        parentObservationId: 'span1',
+        name: 'retry',
+        startTime: new Date(1700000001000),
+        metadata: { spanName: 'weatherFlow' },
+      },
+    ]);
+  });
+
+  it('should mark exception events as errors', () => {
+    const span = createSpan([
+      { name: 'exception', time: [1, 0], attributes: { 'exception.message': 'City not found' } },
+    ]);
+
+    const [event] = new SpanEventConverter().convert(span);
+
+    expect(event).toMatchObject({ level: 'ERROR', statusMessage: 'City not found' });
+    expect(event).not.toHaveProperty('parentObservationId');
+  });
+
+  it('should skip filtered events and spans without events', () => {
+    const converter = new SpanEventConverter({ exclude: ['retry'] });
+
+    expect(converter.convert(createSpan([{ name: 'retry', time: [1, 0] }]))).toEqual([]);
+    expect(converter.convert(createSpan(undefined as any))).toEqual([]);
+  });
+});
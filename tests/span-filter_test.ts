@@ -0,0 +1,258 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import type { ReadableSpan } from '@opentelemetry/sdk-trace-base';
+import { SpanMetadataExtractor } from '../src/metadata-extractor';
+import { SpanFilter, globToRegExp } from '../src/span-filter';
+import type { SpanData } from '../src/types';
+
+// Mock ReadableSpan for testing
+function createMockSpan(
+  spanId: string,
+  parentSpanId: string | undefined,
+  attributes: Record<string, any>,
+  traceId = 'trace1'
+): ReadableSpan {
+  return {
+    name: attributes['genkit:name'] || spanId,
+    attributes,
+    parentSpanId,
+    spanContext: () => ({ spanId, traceId }),
+    status: { code: 0 },
+    startTime: [0, 0],
+    endTime: [1, 0],
+  } as any as ReadableSpan;
+}
+
+function accept(filter: SpanFilter, span: ReadableSpan) {
+  return filter
+    .accept(span, SpanMetadataExtractor.extractMetadata(span))
+    .map(filtered => ({ id: filtered.span.spanContext().spanId, parent: filtered.parentSpanId }));
+}
+
+// flow1 > util1 > model1, with children ending before their parents
+function createTrace(traceId = 'trace1') {
+  return {
+    model: createMockSpan('model1', 'util1', {
+      'genkit:name': 'googleai/gemini-2.0-flash',
+      'genkit:type': 'action',
+      'genkit:metadata:subtype': 'model',
+      'genkit:path': '/{jokeFlow,t:flow}/{generate,t:util}/{googleai/gemini-2.0-flash,t:action}',
+    }, traceId),
+    util: createMockSpan('util1', 'flow1', {
+      'genkit:name': 'generate',
+      'genkit:type': 'util',
+      'genkit:path': '/{jokeFlow,t:flow}/{generate,t:util}',
+    }, traceId),
+    flow: createMockSpan('flow1', undefined, {
+      'genkit:name': 'jokeFlow',
+      'genkit:type': 'action',
+      'genkit:metadata:subtype': 'flow',
+      'genkit:path': '/{jokeFlow,t:flow}',
+      'genkit:isRoot': true,
+    }, traceId),
+  };
+}
+
+const baseData: SpanData = { name: 'span', traceId: 'trace1', spanId: 'span1' };
+
+describe('SpanFilter', () => {
+  describe('shouldExport', () => {
+    it('should export everything without configuration', () => {
+      expect(new SpanFilter().shouldExport(baseData)).toBe(true);
+    });
+
+    it('should apply the first matching rule', () => {
+      const filter = new SpanFilter({
+        rules: [
+          { spanType: 'model', isError: true, action: 'include' },
+          { spanType: 'model', action: 'exclude' },
+        ],
+      });
+
+      expect(filter.shouldExport({ ...baseData, spanType: 'model', isError: true })).toBe(true);
+      expect(filter.shouldExport({ ...baseData, spanType: 'model' })).toBe(false);
+      expect(filter.shouldExport({ ...baseData, spanType: 'tool' })).toBe(true);
+    });
+
+    it('should match action subtypes, flow names and root state', () => {
+      const filter = new SpanFilter({
+        rules: [{ flowName: ['jokeFlow', 'menuFlow'], spanType: 'tool', isRoot: false, action: 'exclude' }],
+      });
+
+      expect(filter.shouldExport({ ...baseData, subtype: 'tool', flowName: 'jokeFlow', isRoot: false })).toBe(false);
+      expect(filter.shouldExport({ ...baseData, subtype: 'tool', flowName: 'otherFlow', isRoot: false })).toBe(true);
+      expect(filter.shouldExport({ ...baseData, subtype: 'tool', flowName: 'jokeFlow', isRoot: true })).toBe(true);
+    });
+
+    it('should match path globs', () => {
+      const filter = new SpanFilter({
+        defaultAction: 'exclude',
+        rules: [{ path: '/{jokeFlow,t:flow}/**', action: 'include' }],
+      });
+
+      expect(filter.shouldExport({ ...baseData, path: '/{jokeFlow,t:flow}/{generate,t:util}' })).toBe(true);
+      expect(filter.shouldExport({ ...baseData, path: '/{menuFlow,t:flow}/{generate,t:util}' })).toBe(false);
+    });
+
+    it('should sample consistently per trace', () => {
+      const filter = new SpanFilter({ rules: [{ action: 'sample', sampleRate: 0.5 }] });
+      const decisions = Array.from({ length: 200 }, (_, i) => `trace-${i}`).map(traceId =>
+        filter.shouldExport({ ...baseData, traceId })
+      );
+      const kept = decisions.filter(Boolean).length;
+
+      expect(kept).toBeGreaterThan(50);
+      expect(kept).toBeLessThan(150);
+      expect(filter.shouldExport({ ...baseData, traceId: 'trace-7' })).toBe(decisions[7]);
+      expect(filter.shouldExport({ ...baseData, traceId: 'trace-7', spanId: 'other' })).toBe(decisions[7]);
+    });
+
+    it('should let the predicate veto included spans', () => {
+      const filter = new SpanFilter({
+        rules: [{ spanType: 'model', action: 'include' }],
+        predicate: (span) => span.name !== 'secret',
+      });
+
+      expect(filter.shouldExport({ ...baseData, spanType: 'model', name: 'secret' })).toBe(false);
+    });
+  });
+
+  describe('toSpanData', () => {
+    it('should derive flow name, root and error state', () => {
+      const { model } = createTrace();
+      const data = SpanFilter.toSpanData(model, {
+        ...SpanMetadataExtractor.extractMetadata(model),
+        state: 'error',
+      });
+
+      expect(data).toEqual(expect.objectContaining({
+        flowName: 'jokeFlow',
+        subtype: 'model',
+        isRoot: false,
+        isError: true,
+        parentSpanId: 'util1',
+      }));
+    });
+  });
+
+  describe('accept', () => {
+    it('should pass spans through without buffering when no filter is configured', () => {
+      const filter = new SpanFilter();
+      const { model } = createTrace();
+
+      expect(accept(filter, model)).toEqual([{ id: 'model1', parent: 'util1' }]);
+      expect(filter.pendingSpans).toBe(0);
+    });
+
+    it('should hold spans until their parent is decided', () => {
+      const filter = new SpanFilter({ rules: [{ spanType: 'tool', action: 'exclude' }] });
+      const { model, util, flow } = createTrace();
+
+      expect(accept(filter, model)).toEqual([]);
+      expect(accept(filter, util)).toEqual([]);
+      expect(filter.pendingSpans).toBe(2);
+      expect(accept(filter, flow)).toEqual([
+        { id: 'flow1', parent: undefined },
+        { id: 'util1', parent: 'flow1' },
+        { id: 'model1', parent: 'util1' },
+      ]);
+      expect(filter.pendingSpans).toBe(0);
+    });
+
+    it('should reparent children of dropped spans to the nearest exported ancestor', () => {
+      const filter = new SpanFilter({ rules: [{ spanType: 'util', action: 'exclude' }] });
+      const { model, util, flow } = createTrace();
+
+      accept(filter, model);
+      accept(filter, util);
+      expect(accept(filter, flow)).toEqual([
+        { id: 'flow1', parent: undefined },
+        { id: 'model1', parent: 'flow1' },
+      ]);
+    });
+
+    it('should flag spans attached to the trace root', () => {
+      const rootChildren = (filter: SpanFilter, span: ReadableSpan) => filter
+        .accept(span, SpanMetadataExtractor.extractMetadata(span))
+        .filter(filtered => filtered.parentIsTraceRoot)
+        .map(filtered => filtered.span.spanContext().spanId);
+
+      const unfiltered = createTrace();
+      const filter = new SpanFilter();
+      expect(rootChildren(filter, unfiltered.model)).toEqual([]);
+      expect(rootChildren(filter, unfiltered.util)).toEqual(['util1']);
+      expect(rootChildren(filter, unfiltered.flow)).toEqual([]);
+
+      const { model, util, flow } = createTrace();
+      const excluding = new SpanFilter({ rules: [{ spanType: 'util', action: 'exclude' }] });
+      rootChildren(excluding, model);
+      rootChildren(excluding, util);
+      expect(rootChildren(excluding, flow)).toEqual(['model1']);
+    });
+
+    it('should release spans ending after the root of their trace right away', () => {
+      const filter = new SpanFilter({ rules: [{ spanType: 'util', action: 'exclude' }] });
+      const { model, util, flow } = createTrace();
+      accept(filter, model);
+      accept(filter, util);
+      accept(filter, flow);
+
+      const audit = createMockSpan('audit1', 'util1', { 'genkit:name': 'audit', 'genkit:type': 'action' });
+      const callback = createMockSpan('callback1', 'late1', { 'genkit:name': 'callback', 'genkit:type': 'action' });
+
+      expect(accept(filter, audit)).toEqual([{ id: 'audit1', parent: 'flow1' }]);
+      expect(accept(filter, callback)).toEqual([{ id: 'callback1', parent: 'late1' }]);
+      expect(filter.pendingSpans).toBe(0);
+    });
+
+    it('should drop the subtree of dropped spans when configured', () => {
+      const filter = new SpanFilter({
+        rules: [{ spanType: 'util', action: 'exclude' }],
+        orphans: 'drop',
+      });
+      const { model, util, flow } = createTrace();
+
+      accept(filter, model);
+      accept(filter, util);
+      expect(accept(filter, flow)).toEqual([{ id: 'flow1', parent: undefined }]);
+    });
+
+    it('should release held spans when the pending limit is exceeded', () => {
+      const filter = new SpanFilter({
+        rules: [{ spanType: 'tool', action: 'exclude' }],
+        maxPendingSpans: 1,
+      });
+      const first = createTrace('trace1');
+      const second = createTrace('trace2');
+
+      expect(accept(filter, first.model)).toEqual([]);
+      // Evicts the oldest trace, releasing its span with the original parent
+      const released = filter.accept(second.model, SpanMetadataExtractor.extractMetadata(second.model));
+      expect(released.map(filtered => filtered.span)).toEqual([first.model]);
+      expect(filter.pendingSpans).toBe(1);
+    });
+  });
+
+  describe('globToRegExp', () => {
+    it('should keep single stars within a segment', () => {
+      expect(globToRegExp('/flow/*').test('/flow/myFlow')).toBe(true);
+      expect(globToRegExp('/flow/*').test('/flow/myFlow/step')).toBe(false);
+      expect(globToRegExp('/flow/**').test('/flow/myFlow/step')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { ExportResultCode, type ExportResult } from '@opentelemetry/core';
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor, type ReadableSpan } from '@opentelemetry/sdk-trace-base';
+import { randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { LangfuseConfigError } from '../src/config';
+import { LangfuseExporter } from '../src/exporter';
+import { ExportSpool, type SpoolTransport } from '../src/spool';
+import type { IngestionEvent } from '../src/types';
+
+function createEvent(id: string, type: IngestionEvent['type'] = 'span-create'): IngestionEvent {
+  return { type, body: { id, traceId: 'trace1', name: `span ${id}` } };
+}
+
+function segmentFiles(directory: string): string[] {
+  return fs.readdirSync(directory).filter(file => file.endsWith('.jsonl')).sort();
+}
+
+describe('ExportSpool', () => {
+  let directory: string;
+  let transport: SpoolTransport & { sent: IngestionEvent[] };
+  let spool: ExportSpool;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'langfuse-spool-'));
+    const sent: IngestionEvent[] = [];
+    transport = {
+      sent,
+      send: jest.fn((event: IngestionEvent) => { sent.push(event); }),
+      flush: jest.fn(async () => {}),
+    };
+  });
+
+  afterEach(() => {
+    spool?.close();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should persist events until they are delivered', () => {
+    spool = new ExportSpool({ directory }, transport);
+
+    spool.append(createEvent('a'));
+    spool.append(createEvent('b'));
+
+    expect(segmentFiles(directory)).toHaveLength(1);
+    expect(spool.pendingEvents).toBe(2);
+
+    spool.acknowledge([createEvent('a')]);
+    expect(spool.pendingEvents).toBe(1);
+
+    spool.acknowledge([createEvent('b')]);
+    expect(spool.pendingEvents).toBe(0);
+    expect(segmentFiles(directory)).toHaveLength(0);
+  });
+
+  it('should rotate segments when they reach the size cap', () => {
+    spool = new ExportSpool({ directory, maxSegmentBytes: 150 }, transport);
+
+    spool.append(createEvent('a'));
+    spool.append(createEvent('b'));
+    spool.append(createEvent('c'));
+
+    expect(segmentFiles(directory)).toHaveLength(3);
+
+    spool.acknowledge([createEvent('b')]);
+    expect(segmentFiles(directory)).toHaveLength(2);
+  });
+
+  it('should discard the oldest segments when the total size cap is reached', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    spool = new ExportSpool({ directory, maxSegmentBytes: 150, maxTotalBytes: 300 }, transport);
+
+    spool.append(createEvent('a'));
+    spool.append(createEvent('b'));
+    spool.append(createEvent('c'));
+
+    expect(segmentFiles(directory)).toHaveLength(2);
+    expect(spool.pendingEvents).toBe(2);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('should redeliver failed events after a backoff', async () => {
+    jest.useFakeTimers();
+    try {
+      spool = new ExportSpool({ directory, retryInitialDelayMillis: 100 }, transport);
+
+      spool.append(createEvent('a'));
+      spool.acknowledge([createEvent('a')], new Error('503'));
+      expect(transport.send).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(transport.sent).toEqual([createEvent('a')]);
+      expect(transport.flush).toHaveBeenCalledTimes(1);
+      expect(spool.pendingEvents).toBe(1);
+
+      spool.acknowledge([createEvent('a')]);
+      expect(spool.pendingEvents).toBe(0);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should replay events left behind by a previous process', async () => {
+    const previous = new ExportSpool({ directory }, transport);
+    previous.append(createEvent('trace1', 'trace-create'));
+    previous.append(createEvent('a'));
+    previous.acknowledge([createEvent('trace1', 'trace-create')]);
+    previous.close();
+
+    spool = new ExportSpool({ directory }, transport);
+    expect(spool.pendingEvents).toBe(1);
+
+    expect(await spool.replay()).toBe(1);
+    expect(transport.sent).toEqual([createEvent('a')]);
+  });
+
+  it('should skip lines torn by a crash', async () => {
+    fs.writeFileSync(
+      path.join(directory, 'segment-000000000000001-000000.jsonl'),
+      JSON.stringify(createEvent('a')) + '\n{"type":"span-cre'
+    );
+
+    spool = new ExportSpool({ directory }, transport);
+
+    expect(await spool.replay()).toBe(1);
+    expect(transport.sent).toEqual([createEvent('a')]);
+  });
+
+  it('should refuse a directory owned by another spool', () => {
+    spool = new ExportSpool({ directory }, transport);
+
+    expect(() => new ExportSpool({ directory }, transport)).toThrow(LangfuseConfigError);
+  });
+
+  it('should take over the lock of an exited process', () => {
+    fs.writeFileSync(path.join(directory, 'spool.lock'), '999999999');
+
+    spool = new ExportSpool({ directory }, transport);
+
+    expect(fs.readFileSync(path.join(directory, 'spool.lock'), 'utf8')).toBe(String(process.pid));
+  });
+});
+
+/** Trace IDs inside and outside a sample rate of 0.5 */
+const SAMPLED_TRACE_ID = '5b8aa5a2d2c872e8321cf37308d69df2';
+const UNSAMPLED_TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+
+/**
+ * Local ingestion API that accepts every batch.
+ */
+function startIngestionApi(): Promise<{ server: http.Server; baseUrl: string; items: any[] }> {
+  const items: any[] = [];
+  const server = http.createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => {
+      items.push(...(JSON.parse(Buffer.concat(chunks).toString('utf8')).batch || []));
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ successes: [], errors: [] }));
+    });
+  });
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, baseUrl: `http://127.0.0.1:${port}`, items });
+    });
+  });
+}
+
+/**
+ * Record a Genkit flow span in the given trace.
+ */
+function recordFlow(traceId: string): ReadableSpan[] {
+  const memory = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider({
+    idGenerator: { generateTraceId: () => traceId, generateSpanId: () => randomBytes(8).toString('hex') },
+  });
+  provider.addSpanProcessor(new SimpleSpanProcessor(memory));
+  provider.getTracer('genkit').startSpan('chatFlow', {
+    attributes: {
+      'genkit:type': 'action',
+      'genkit:metadata:subtype': 'flow',
+      'genkit:name': 'chatFlow',
+      'genkit:path': '/{chatFlow,t:flow}',
+      'genkit:isRoot': true,
+      'genkit:input': JSON.stringify('Hello'),
+      'genkit:output': JSON.stringify('Hi there'),
+      'genkit:state': 'success',
+    },
+  }).end();
+  return memory.getFinishedSpans();
+}
+
+describe('ExportSpool with the Langfuse client', () => {
+  let directory: string;
+  let api: Awaited<ReturnType<typeof startIngestionApi>>;
+  let exporter: LangfuseExporter;
+
+  beforeEach(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'langfuse-spool-'));
+    api = await startIngestionApi();
+  });
+
+  afterEach(async () => {
+    await exporter.shutdown();
+    await new Promise(resolve => api.server.close(resolve));
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should only spool events of sampled traces', async () => {
+    exporter = new LangfuseExporter({
+      publicKey: 'pk-lf-test',
+      secretKey: 'sk-lf-test',
+      baseUrl: api.baseUrl,
+      sampleRate: 0.5,
+      spool: { directory },
+      exportTimeoutMillis: 5000,
+    });
+
+    const results = await Promise.all([SAMPLED_TRACE_ID, UNSAMPLED_TRACE_ID].map(traceId =>
+      new Promise<ExportResult>(resolve => exporter.export(recordFlow(traceId), resolve))));
+
+    expect(results.map(result => result.code)).toEqual([ExportResultCode.SUCCESS, ExportResultCode.SUCCESS]);
+    expect(api.items.map(item => [item.type, item.body.id])).toEqual([['trace-create', SAMPLED_TRACE_ID]]);
+    // Every spooled event was acknowledged, so nothing is replayed on restart
+    expect(segmentFiles(directory)).toEqual([]);
+  });
+});
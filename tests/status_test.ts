@@ -0,0 +1,62 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { SpanStatusCode } from '@opentelemetry/api';
+import type { ReadableSpan } from '@opentelemetry/sdk-trace-base';
+import { extractSpanError } from '../src/status';
+
+function createSpan(overrides: Partial<ReadableSpan> = {}): ReadableSpan {
+  return { status: { code: SpanStatusCode.UNSET }, events: [], ...overrides } as any as ReadableSpan;
+}
+
+describe('extractSpanError', () => {
+  it('should ignore successful spans', () => {
+    expect(extractSpanError(createSpan({ status: { code: SpanStatusCode.OK } }), 'success')).toBeUndefined();
+  });
+
+  it('should use the status message of failed spans', () => {
+    const span = createSpan({ status: { code: SpanStatusCode.ERROR, message: 'Quota exceeded' } });
+
+    expect(extractSpanError(span)).toEqual({ level: 'ERROR', statusMessage: 'Quota exceeded' });
+  });
+
+  it('should describe exceptions with their type and first stack frames', () => {
+    const frames = Array.from({ length: 15 }, (_, index) => `    at frame${index} (tool.js:${index}:1)`);
+    const span = createSpan({
+      status: { code: SpanStatusCode.ERROR, message: 'City not found' },
+      events: [{
+        name: 'exception',
+        time: [0, 0],
+        attributes: {
+          'exception.type': 'GenkitError',
+          'exception.message': 'City not found',
+          'exception.stacktrace': ['GenkitError: City not found', ...frames].join('\n'),
+        },
+      }],
+    });
+
+    expect(extractSpanError(span)!.statusMessage).toBe([
+      'GenkitError: City not found',
+      ...frames.slice(0, 10),
+      '    ... 5 more',
+    ].join('\n'));
+  });
+
+  it('should treat the Genkit error state as a failure', () => {
+    expect(extractSpanError(createSpan(), 'error')).toEqual({ level: 'ERROR', statusMessage: 'Span failed' });
+  });
+});
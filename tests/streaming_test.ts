@@ -0,0 +1,140 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { trace } from '@opentelemetry/api';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+} from '@opentelemetry/sdk-trace-base';
+import { genkit } from 'genkit';
+import { SpanMetadataExtractor } from '../src/metadata-extractor';
+import { recordStreaming, trackStreaming } from '../src/streaming';
+
+describe('trackStreaming', () => {
+  const tracer = new BasicTracerProvider().getTracer('test');
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should record chunk timings on the active model span', () => {
+    const span = tracer.startSpan('googleai/gemini-2.5-flash');
+    jest.spyOn(trace, 'getActiveSpan').mockReturnValue(span);
+    const onChunk = jest.fn();
+    const now = jest.spyOn(Date, 'now');
+
+    const callback = trackStreaming(onChunk);
+    now.mockReturnValue(1000);
+    callback('Once');
+    now.mockReturnValue(1400);
+    callback(' upon');
+    now.mockReturnValue(1900);
+    callback(' a time');
+    span.end();
+
+    expect(onChunk).toHaveBeenCalledTimes(3);
+    expect(SpanMetadataExtractor.extractMetadata(span as unknown as ReadableSpan).streaming).toEqual({
+      firstChunkTime: 1000,
+      lastChunkTime: 1900,
+      chunkCount: 3,
+    });
+  });
+
+  it('should leave spans without chunks untouched', () => {
+    const span = tracer.startSpan('googleai/gemini-2.5-flash');
+    span.end();
+
+    expect(SpanMetadataExtractor.extractMetadata(span as unknown as ReadableSpan).streaming).toBeUndefined();
+  });
+
+  it('should pass chunks through outside of a span', () => {
+    const onChunk = jest.fn();
+
+    trackStreaming(onChunk)('chunk');
+
+    expect(onChunk).toHaveBeenCalledWith('chunk');
+  });
+});
+
+describe('recordStreaming', () => {
+  const memory = new InMemorySpanExporter();
+
+  beforeAll(() => {
+    const provider = new BasicTracerProvider();
+    provider.addSpanProcessor(new SimpleSpanProcessor(memory));
+    trace.setGlobalTracerProvider(provider);
+  });
+
+  afterAll(() => {
+    trace.disable();
+  });
+
+  /**
+   * Genkit instance with a model that streams three chunks.
+   */
+  function createGenkit() {
+    const ai = genkit({});
+    ai.defineModel({ name: 'test/storyteller', use: [recordStreaming()] }, async (_request, sendChunk) => {
+      for (const text of ['Once', ' upon', ' a time']) {
+        sendChunk?.({ content: [{ text }] });
+      }
+      return { message: { role: 'model', content: [{ text: 'Once upon a time' }] }, finishReason: 'stop' };
+    });
+    return ai;
+  }
+
+  function streamingOfModelSpan() {
+    const span = memory.getFinishedSpans().find(finished => finished.name === 'test/storyteller');
+    return SpanMetadataExtractor.extractMetadata(span!).streaming;
+  }
+
+  beforeEach(() => {
+    memory.reset();
+  });
+
+  it('should record chunks of generateStream() on the model span', async () => {
+    const ai = createGenkit();
+
+    const { stream, response } = ai.generateStream({ model: 'test/storyteller', prompt: 'Tell me a story' });
+    const chunks: string[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk.text);
+    }
+
+    expect(chunks).toEqual(['Once', ' upon', ' a time']);
+    expect((await response).text).toBe('Once upon a time');
+    expect(streamingOfModelSpan()).toEqual(expect.objectContaining({ chunkCount: 3 }));
+  });
+
+  it('should not count chunks twice for callbacks wrapped with trackStreaming', async () => {
+    const ai = createGenkit();
+
+    await ai.generate({ model: 'test/storyteller', prompt: 'Tell me a story', onChunk: trackStreaming() });
+
+    expect(streamingOfModelSpan()).toEqual(expect.objectContaining({ chunkCount: 3 }));
+  });
+
+  it('should leave calls without streaming untouched', async () => {
+    const ai = createGenkit();
+
+    await ai.generate({ model: 'test/storyteller', prompt: 'Tell me a story' });
+
+    expect(streamingOfModelSpan()).toBeUndefined();
+  });
+});
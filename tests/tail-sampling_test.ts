@@ -0,0 +1,147 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import type { ReadableSpan } from '@opentelemetry/sdk-trace-base';
+import type { ExtractedMetadata } from '../src/metadata-extractor';
+import { TailSampler, type SampledSpan } from '../src/tail-sampling';
+
+function createSpan(
+  spanId: string,
+  traceId: string,
+  options: { parent?: string; durationSeconds?: number; failed?: boolean } = {}
+): ReadableSpan {
+  return {
+    name: spanId,
+    spanContext: () => ({ spanId, traceId }),
+    parentSpanId: options.parent,
+    startTime: [1000, 0],
+    endTime: [1000 + (options.durationSeconds ?? 1), 0],
+    status: { code: options.failed ? 2 : 0 },
+    attributes: {},
+  } as any as ReadableSpan;
+}
+
+function accept(sampler: TailSampler, span: ReadableSpan, metadata: ExtractedMetadata = {}): SampledSpan[] {
+  return sampler.accept(span, metadata);
+}
+
+function names(spans: SampledSpan[]): string[] {
+  return spans.map(sampled => sampled.span.name);
+}
+
+describe('TailSampler', () => {
+  it('should pass spans through when not configured', () => {
+    const sampler = new TailSampler();
+
+    expect(names(accept(sampler, createSpan('tool', 'trace1', { parent: 'root' })))).toEqual(['tool']);
+    expect(sampler.enabled).toBe(false);
+  });
+
+  it('should buffer spans until the root ends', () => {
+    const sampler = new TailSampler({ sampleRate: 1 });
+
+    expect(accept(sampler, createSpan('tool', 'trace1', { parent: 'root' }))).toEqual([]);
+    expect(sampler.bufferedSpans).toBe(1);
+
+    const released = accept(sampler, createSpan('root', 'trace1'));
+    expect(names(released)).toEqual(['tool', 'root']);
+    expect(released[1].metadata.sampling).toBe('sampled');
+    expect(released[0].metadata.sampling).toBeUndefined();
+    expect(sampler.bufferedSpans).toBe(0);
+  });
+
+  it('should drop unsampled traces completely', () => {
+    const sampler = new TailSampler({ sampleRate: 0 });
+
+    accept(sampler, createSpan('tool', 'trace1', { parent: 'root' }));
+    expect(accept(sampler, createSpan('root', 'trace1'))).toEqual([]);
+    expect(sampler.bufferedSpans).toBe(0);
+  });
+
+  it('should keep failed traces', () => {
+    const sampler = new TailSampler({ sampleRate: 0 });
+
+    accept(sampler, createSpan('tool', 'trace1', { parent: 'root' }), { state: 'error' });
+    const released = accept(sampler, createSpan('root', 'trace1'));
+
+    expect(names(released)).toEqual(['tool', 'root']);
+    expect(released[1].metadata.sampling).toBe('error');
+  });
+
+  it('should drop failed traces when keepErrors is false', () => {
+    const sampler = new TailSampler({ sampleRate: 0, keepErrors: false });
+
+    expect(accept(sampler, createSpan('root', 'trace1', { failed: true }))).toEqual([]);
+  });
+
+  it('should keep slow traces', () => {
+    const sampler = new TailSampler({ sampleRate: 0, latencyThresholdMillis: 5000 });
+
+    expect(accept(sampler, createSpan('root', 'trace1', { durationSeconds: 4 }))).toEqual([]);
+    expect(accept(sampler, createSpan('root', 'trace2', { durationSeconds: 5 }))[0].metadata.sampling)
+      .toBe('latency');
+  });
+
+  it('should keep traces over the cost threshold', () => {
+    const sampler = new TailSampler({ sampleRate: 0, costThreshold: 0.01 }, (_span, metadata) =>
+      metadata.spanType === 'model' ? 0.006 : 0
+    );
+
+    accept(sampler, createSpan('generate1', 'trace1', { parent: 'root' }), { spanType: 'model' });
+    accept(sampler, createSpan('generate2', 'trace1', { parent: 'root' }), { spanType: 'model' });
+    const released = accept(sampler, createSpan('root', 'trace1'));
+
+    expect(released[2].metadata.sampling).toBe('cost');
+  });
+
+  it('should decide the oldest traces early when the buffer is full', () => {
+    const sampler = new TailSampler({ sampleRate: 1, maxBufferedSpans: 2 });
+
+    accept(sampler, createSpan('a1', 'traceA', { parent: 'rootA' }));
+    accept(sampler, createSpan('b1', 'traceB', { parent: 'rootB' }));
+    const released = accept(sampler, createSpan('b2', 'traceB', { parent: 'rootB' }));
+
+    expect(names(released)).toEqual(['a1']);
+    expect(sampler.bufferedSpans).toBe(2);
+
+    // Later spans of an early-decided trace follow the decision
+    const root = accept(sampler, createSpan('rootA', 'traceA'));
+    expect(names(root)).toEqual(['rootA']);
+    expect(root[0].metadata.sampling).toBe('sampled');
+  });
+
+  it('should decide traces buffered too long', () => {
+    let now = 0;
+    const sampler = new TailSampler({ sampleRate: 0, maxTraceAgeMillis: 1000 }, undefined, () => now);
+
+    accept(sampler, createSpan('a1', 'traceA', { parent: 'rootA' }));
+    now = 2000;
+    accept(sampler, createSpan('b1', 'traceB', { parent: 'rootB' }));
+
+    expect(sampler.bufferedSpans).toBe(1);
+    expect(accept(sampler, createSpan('rootA', 'traceA'))).toEqual([]);
+  });
+
+  it('should decide every buffered trace on drain', () => {
+    const sampler = new TailSampler({ sampleRate: 1 });
+    accept(sampler, createSpan('a1', 'traceA', { parent: 'rootA' }));
+    accept(sampler, createSpan('b1', 'traceB', { parent: 'rootB' }));
+
+    expect(names(sampler.drain())).toEqual(['a1', 'b1']);
+    expect(sampler.bufferedSpans).toBe(0);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { BasicTracerProvider, InMemorySpanExporter, type ReadableSpan } from '@opentelemetry/sdk-trace-base';
+import { SpanMetadataExtractor } from '../src/metadata-extractor';
+import { LangfuseSpanProcessor } from '../src/span-processor';
+import {
+  getLangfuseContext,
+  mergeTraceContexts,
+  readTraceContext,
+  withLangfuseContext,
+} from '../src/trace-context';
+
+describe('withLangfuseContext', () => {
+  it('should keep the context across awaits', async () => {
+    const context = await withLangfuseContext({ userId: 'user-1' }, async () => {
+      await new Promise(resolve => setTimeout(resolve, 1));
+      return getLangfuseContext();
+    });
+
+    expect(context).toEqual({ userId: 'user-1' });
+    expect(getLangfuseContext()).toBeUndefined();
+  });
+
+  it('should merge nested contexts', () => {
+    const context = withLangfuseContext(
+      { userId: 'user-1', sessionId: 'session-1', tags: ['support'], metadata: { plan: 'pro', region: 'eu' } },
+      () => withLangfuseContext(
+        { userId: 'user-2', tags: ['escalated', 'support'], metadata: { region: 'us' } },
+        getLangfuseContext
+      )
+    );
+
+    expect(context).toEqual({
+      userId: 'user-2',
+      sessionId: 'session-1',
+      tags: ['support', 'escalated'],
+      metadata: { plan: 'pro', region: 'us' },
+    });
+  });
+
+  it('should record the context on spans started inside it', () => {
+    const provider = new BasicTracerProvider();
+    provider.addSpanProcessor(new LangfuseSpanProcessor(new InMemorySpanExporter()));
+    const tracer = provider.getTracer('test');
+
+    const span = withLangfuseContext(
+      { userId: 'user-1', sessionId: 'session-1', tags: ['beta'], metadata: { plan: 'pro' }, traceName: 'support' },
+      () => tracer.startSpan('tool')
+    );
+    span.end();
+
+    const metadata = SpanMetadataExtractor.extractMetadata(span as unknown as ReadableSpan);
+    expect(metadata.userId).toBe('user-1');
+    expect(metadata.sessionId).toBe('session-1');
+    expect(metadata.traceContext).toEqual({
+      userId: 'user-1',
+      sessionId: 'session-1',
+      tags: ['beta'],
+      metadata: { plan: 'pro' },
+      traceName: 'support',
+    });
+  });
+});
+
+describe('readTraceContext', () => {
+  it('should return undefined for spans without context', () => {
+    expect(readTraceContext({ 'genkit:name': 'myFlow' })).toBeUndefined();
+  });
+
+  it('should ignore malformed metadata', () => {
+    expect(readTraceContext({ 'langfuse.user.id': 'user-1', 'langfuse.trace.metadata': '{' }))
+      .toEqual({ userId: 'user-1' });
+  });
+});
+
+describe('mergeTraceContexts', () => {
+  it('should handle missing contexts', () => {
+    expect(mergeTraceContexts(undefined, undefined)).toEqual({});
+    expect(mergeTraceContexts({ tags: ['a'] }, undefined)).toEqual({ tags: ['a'] });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { PayloadTruncator, byteSize, truncateValue } from '../src/truncation';
+
+const document = 'lorem ipsum '.repeat(2000);
+
+describe('truncateValue', () => {
+  it('should return values within the limit untouched', () => {
+    const value = { messages: [{ role: 'user', content: [{ text: 'Hi' }] }] };
+
+    expect(truncateValue(value, 1000)).toEqual({ value, originalBytes: byteSize(value), truncated: false });
+  });
+
+  it('should shorten long strings and keep the structure', () => {
+    const value = { messages: [{ role: 'user', content: [{ text: 'Summarize' }, { text: document }] }] };
+
+    const result = truncateValue(value, 2000);
+
+    expect(result.truncated).toBe(true);
+    expect(result.originalBytes).toBe(byteSize(value));
+    expect(byteSize(result.value)).toBeLessThanOrEqual(2000);
+    expect(result.value.messages[0].content[0].text).toBe('Summarize');
+    expect(result.value.messages[0].content[1].text).toMatch(/^lorem ipsum .*…\[\d+ chars truncated\]$/);
+  });
+
+  it('should drop the tail of long arrays', () => {
+    const value = { documents: Array.from({ length: 500 }, (_, index) => ({ id: index })) };
+
+    const result = truncateValue(value, 1000);
+
+    expect(byteSize(result.value)).toBeLessThanOrEqual(1000);
+    expect(result.value.documents[0]).toEqual({ id: 0 });
+    expect(result.value.documents[result.value.documents.length - 1]).toMatch(/^\[\d+ more items truncated\]$/);
+  });
+});
+
+describe('PayloadTruncator', () => {
+  it('should cap each field and mark the body as truncated', () => {
+    const body: Record<string, any> = { id: 'gen-1', input: document, output: 'Short answer', metadata: { model: 'gpt-4' } };
+
+    expect(new PayloadTruncator({ maxFieldBytes: 1000 }).truncate(body)).toEqual({ input: byteSize(document) });
+
+    expect(byteSize(body.input)).toBeLessThanOrEqual(1000);
+    expect(body.output).toBe('Short answer');
+    expect(body.metadata).toEqual({ model: 'gpt-4', truncated: true, originalSize: { input: byteSize(document) } });
+  });
+
+  it('should shrink the largest fields to fit the event limit', () => {
+    const body: Record<string, any> = { id: 'gen-1', input: document, output: document.slice(0, 6000) };
+
+    new PayloadTruncator({ maxEventBytes: 12000 }).truncate(body);
+
+    expect(byteSize(body)).toBeLessThanOrEqual(12000);
+    expect(body.output).toBe(document.slice(0, 6000));
+    expect(Object.keys(body.metadata.originalSize)).toEqual(['input']);
+  });
+
+  it('should leave small events alone', () => {
+    const body = { id: 'gen-1', input: 'Hi', output: 'Hello' };
+
+    expect(new PayloadTruncator().truncate(body)).toEqual({});
+    expect(body).toEqual({ id: 'gen-1', input: 'Hi', output: 'Hello' });
+  });
+});